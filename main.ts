@@ -1,9 +1,31 @@
-import { Plugin, PluginSettingTab, App, Setting, MarkdownPostProcessorContext, TFile, TAbstractFile, MarkdownRenderer, MarkdownView, parseYaml, setIcon } from "obsidian";
-import { compressImage } from "./src/compression";
+import { Plugin, PluginSettingTab, App, Component, Editor, Setting, MarkdownPostProcessorContext, TFile, TFolder, TAbstractFile, MarkdownRenderer, MarkdownRenderChild, MarkdownView, Menu, Notice, debounce, getLinkpath, parseYaml, requestUrl, setIcon } from "obsidian";
+import { AudioPlaylist, PlaylistTrack, REPEAT_MODES, RepeatMode } from "./src/audioPlaylist";
+import { COMPRESSION_FORMATS, CompressedImageCache, CompressionFormat, CompressionOptions, CompressionSize, CompressionWorker, DEFAULT_COMPRESSION_SIZE, compressImage, formatCompressionSize, parseCompressionSize } from "./src/compression";
 import { NotesManager } from "./src/notes";
 import { DrawingAnnotation } from "./src/drawing";
 import { Visualizer } from "./src/visualizer";
 import { CompareMode, CompareOptions } from "./src/compareMode";
+import { FOLDER_SORT_MODES, FolderSortMode, SortOrder, sortFolderFiles } from "./src/folderSort";
+import { GALLERY_LAYOUTS, GalleryLayout, createGallery, fitTileToMedia } from "./src/galleryLayout";
+import { LazyLoader } from "./src/lazyLoader";
+import { Lightbox } from "./src/lightbox";
+import { checkPathPattern, createPathFilter } from "./src/pathFilter";
+import { collectNoteEmbeds, queryMatchesNote, resolveMediaQuery } from "./src/querySources";
+import { embedsToSliderBlock, findSliderBlock, sliderBlockToEmbeds } from "./src/embedConversion";
+import { ReferenceRewriter, chainReferenceRewriters, createReferenceRewriter, rewriteSliderBlocks, rewriteSliderKey } from "./src/renameReferences";
+import { ImageMetadata, METADATA_LABELS, captionVariables, fillCaption, formatFileSize, hasCaptionVariables, readImageMetadata } from "./src/imageMetadata";
+import { SlideAttributes } from "./src/slideAttributes";
+import { addSlideFileActions } from "./src/slideMenu";
+import { SlideOrigin, applySlideOrder, removeSlideFromBody } from "./src/slideOrder";
+import { SlideViewOptions, alignSlide, isAtLastStep, resolveSlidesPerView, stepSlide, visibleSlides } from "./src/slideView";
+import { SliderBuilderModal } from "./src/sliderBuilder";
+import { SlidePreloader } from "./src/slidePreloader";
+import { SlideshowTimer } from "./src/slideshowTimer";
+import { createTaskLimiter } from "./src/taskLimiter";
+import { ThumbnailCache, thumbnailKey } from "./src/thumbnailCache";
+import { captureVideoFrame, renderAudioPreview, renderImageThumbnail, renderPdfFirstPage } from "./src/thumbnailGenerator";
+import { SliderEntry, formatSliderEntry, parseSliderEntry } from "./src/sliderSource";
+import { SettingsSchema, ValidationIssue, closestMatch, renderValidationPanel, validateSettings } from "./src/settingsValidator";
 
 interface MediaSliderSettings {
 	enableDrawingAnnotation: boolean;
@@ -12,11 +34,21 @@ interface MediaSliderSettings {
 	visualizerHeight: string;
 	compressionQuality: number;
 	enableCompression: boolean;
+	compressionSize: CompressionSize;
+	compressionFormat: CompressionFormat;
 	enableCompareMode: boolean;
 	showControlsOnHover: boolean;
 	thumbnailsCollapsedByDefault: boolean;
 	showCopyButton: boolean;
+	/** Show the button that opens the current slide's photo details. */
+	showInfoButton: boolean;
 	showThumbnailToggle: boolean;
+	/** Show a video frame, PDF page, cover art or note snippet in thumbnails instead of the file type. */
+	generatePreviews: boolean;
+	/** Size cap of the on-disk thumbnail cache in MB; 0 turns it off. */
+	thumbnailCacheSize: number;
+	/** Named bundles of slider options, as YAML, that a block pulls in with `preset: name`. */
+	presets: Record<string, string>;
 }
 
 interface CompareModeSettings {
@@ -33,18 +65,56 @@ interface SliderSettings {
 	sliderId: string;
 	carouselShowThumbnails: boolean;
 	thumbnailPosition: string;
+	/** Time in seconds of the frame shown in a video's thumbnail; a clip uses its `start`. */
+	thumbnailOffset: number;
 	captionMode: string;
 	autoplay: boolean;
 	slideshowSpeed: number;
 	width: string;
 	height: string;
+	/** `carousel` shows one slide at a time; the other layouts show every slide as a tile and open a lightbox. */
+	layout: GalleryLayout;
+	columns: number;
+	gap: string;
+	/** Row height of the `justified` layout. */
+	rowHeight: string;
+	/** Slides shown side by side, fixed or by minimum slider width in pixels. */
+	slidesPerView: number | Record<string, number>;
+	/** Slides moved by one step of the navigation or slideshow. */
+	slidesPerGroup: number;
+	centered: boolean;
+	/** Width of the strip of each neighbouring slide shown at the edges, as a CSS length. */
+	peek: string;
 	transitionEffect: string;
 	transitionDuration: number;
 	enhancedView: boolean;
 	interactiveNotes: boolean;
 	fileTypes: string[] | null;
 	recursive: boolean;
+	source: "self" | null;
+	include: string[] | null;
+	exclude: string[] | null;
+	sort: FolderSortMode;
+	order: SortOrder;
+	seed: number | null;
+	/** Move on to the next slide when a video or audio slide finishes; per slide with `{advance}`. */
+	advanceOnEnd: boolean;
+	/** Play the audio slides one after another through a shared player with a now-playing bar. */
+	playlist: boolean;
+	/** Hold the slideshow while the pointer is over the slider or it has focus. */
+	pauseOnHover: boolean;
+	/** Hold the slideshow while a video or audio slide plays, and move on when it ends. */
+	waitForMedia: boolean;
+	/** End the slideshow on the last slide instead of starting over. */
+	stopAtEnd: boolean;
+	shuffle: boolean;
+	repeat: RepeatMode;
+	/** Vault paths in the order set by dragging thumbnails, used by `sort: manual`. */
+	manualOrder: string[] | null;
 	compression: boolean | number | string | null;
+	/** Largest size of a compressed image; `fit` sizes it to the slider. */
+	compressionSize: CompressionSize;
+	compressionFormat: CompressionFormat;
 	compareMode: CompareModeSettings;
 }
 
@@ -55,13 +125,153 @@ const DEFAULT_SETTINGS: MediaSliderSettings = {
 	visualizerHeight: "50px",
 	compressionQuality: 1,
 	enableCompression: true,
+	compressionSize: DEFAULT_COMPRESSION_SIZE,
+	compressionFormat: "auto",
 	enableCompareMode: true,
 	showControlsOnHover: false,
 	thumbnailsCollapsedByDefault: false,
 	showCopyButton: false,
-	showThumbnailToggle: true
+	showInfoButton: true,
+	showThumbnailToggle: true,
+	generatePreviews: true,
+	thumbnailCacheSize: 100,
+	presets: {}
 };
 
+const DEFAULT_MEDIA_EXTENSIONS = [
+	"png", "jpg", "jpeg", "gif", "svg", "webp", "bmp", "avif",
+	"mp4", "webm", "mkv", "mov", "ogv",
+	"mp3", "ogg", "wav", "flac", "m4a",
+	"pdf", "md"
+];
+
+// Source line that expands to every media embed of the note holding the slider.
+const SELF_EMBEDS_LINE = "![[#embeds]]";
+
+const TRANSITION_EFFECTS = ["fade", "slide", "zoom", "slide-up", "slide-down", "flip", "flip-vertical", "rotate", "blur", "squeeze"];
+
+const COMPARE_MODE_SCHEMA: SettingsSchema = {
+	enabled: { type: "boolean" },
+	orientation: { type: "string", values: ["horizontal", "vertical"] },
+	initialPosition: { type: "number", min: 0, max: 100 },
+	showLabels: { type: "boolean" },
+	label1: { type: "string", allowNumber: true },
+	label2: { type: "string", allowNumber: true },
+	swapImages: { type: "boolean" }
+};
+
+const SLIDER_SETTINGS_SCHEMA: SettingsSchema = {
+	sliderId: { type: "string", allowNumber: true },
+	preset: { type: "string", allowNumber: true },
+	carouselShowThumbnails: { type: "boolean" },
+	thumbnailPosition: { type: "string", values: ["top", "bottom", "left", "right"] },
+	thumbnailOffset: { type: "number", min: 0 },
+	captionMode: { type: "string", values: ["overlay", "below"] },
+	autoplay: { type: "boolean" },
+	slideshowSpeed: { type: "number", min: 0 },
+	width: { type: "length" },
+	height: { type: "length" },
+	layout: { type: "string", values: GALLERY_LAYOUTS },
+	columns: { type: "number", min: 1 },
+	gap: { type: "length" },
+	rowHeight: { type: "length" },
+	slidesPerView: {
+		type: "union",
+		of: [{ type: "number", min: 1 }, { type: "record", of: { type: "number", min: 1 }, numericKeys: true }]
+	},
+	slidesPerGroup: { type: "number", min: 1 },
+	centered: { type: "boolean" },
+	peek: { type: "length" },
+	transitionEffect: { type: "string", values: TRANSITION_EFFECTS },
+	transitionDuration: { type: "number", min: 0 },
+	enhancedView: { type: "boolean" },
+	interactiveNotes: { type: "boolean" },
+	fileTypes: { type: "stringList" },
+	recursive: { type: "boolean" },
+	source: { type: "string", values: ["self"] },
+	include: { type: "stringList", check: checkPathPattern },
+	exclude: { type: "stringList", check: checkPathPattern },
+	sort: { type: "string", values: FOLDER_SORT_MODES },
+	order: { type: "string", values: ["asc", "desc"] },
+	seed: { type: "number" },
+	manualOrder: { type: "stringList" },
+	advanceOnEnd: { type: "boolean" },
+	playlist: { type: "boolean" },
+	pauseOnHover: { type: "boolean" },
+	waitForMedia: { type: "boolean" },
+	stopAtEnd: { type: "boolean" },
+	shuffle: { type: "boolean" },
+	repeat: { type: "string", values: REPEAT_MODES },
+	compression: {
+		type: "union",
+		of: [{ type: "boolean" }, { type: "number", min: 0, max: 1 }, { type: "string", values: ["on", "off"] }]
+	},
+	compressionSize: {
+		type: "union",
+		of: [
+			{
+				type: "string",
+				allowNumber: true,
+				parse: parseCompressionSize,
+				description: "\"fit\", or a size such as \"1600x1200\""
+			},
+			{
+				type: "object",
+				fields: { width: { type: "number", min: 1 }, height: { type: "number", min: 1 } },
+				required: ["width", "height"]
+			}
+		]
+	},
+	compressionFormat: { type: "string", values: COMPRESSION_FORMATS },
+	compareMode: { type: "union", of: [{ type: "boolean" }, { type: "object", fields: COMPARE_MODE_SCHEMA }] },
+	// Compare mode options may also be given at the top level alongside `compareMode: true`.
+	orientation: COMPARE_MODE_SCHEMA.orientation,
+	initialPosition: COMPARE_MODE_SCHEMA.initialPosition,
+	showLabels: COMPARE_MODE_SCHEMA.showLabels,
+	label1: COMPARE_MODE_SCHEMA.label1,
+	label2: COMPARE_MODE_SCHEMA.label2,
+	swapImages: COMPARE_MODE_SCHEMA.swapImages
+};
+
+// Presets are shared between sliders, so they may not set an id or pull in another preset.
+const PRESET_SCHEMA: SettingsSchema = Object.fromEntries(
+	Object.entries(SLIDER_SETTINGS_SCHEMA).filter(([key]) => key !== "sliderId" && key !== "preset")
+);
+
+type CompareGroups = Map<string, { files: { path: string; caption: string | null }[]; processed: boolean }>;
+
+interface SliderEntries {
+	/** Slide entries as `path|caption`, or `__COMPARE_GROUP_<id>` placeholders. */
+	files: string[];
+	/** Where each slide came from in the block, parallel to `files`. */
+	origins: SlideOrigin[];
+	compareGroups: CompareGroups;
+	/** Attributes of each slide, parallel to `files`, so identical entries keep their own. */
+	slideAttributes: (SlideAttributes | undefined)[];
+	/** Folders expanded into the list, watched for new, moved and deleted files. */
+	folders: string[];
+	/** Whether the list came partly from query lines or the note's own embeds. */
+	usesMetadata: boolean;
+	/** The query lines, including `source: self`, for telling which metadata changes matter. */
+	queries: string[];
+	/** Notes the queries took media from, which matter even after they stop matching. */
+	queryNotes: string[];
+}
+
+interface SliderController {
+	/** Swaps in a new entry list, keeping the current slide selected when it is still present. */
+	setEntries(entries: SliderEntries): void;
+	/** Redraws thumbnails, and the current slide if it shows the given file. */
+	refreshFile(path: string): void;
+}
+
+/** What Obsidian's internal drag manager holds while a file or folder is dragged from the file explorer. */
+interface DraggedVaultItems {
+	type: string;
+	file?: TAbstractFile;
+	files?: TAbstractFile[];
+}
+
 enum MediaType {
 	IMAGE = "IMAGE",
 	VIDEO = "VIDEO",
@@ -76,9 +286,28 @@ export default class MediaSliderPlugin extends Plugin {
 	settings: MediaSliderSettings;
 	private filePathCache: Map<string, string> = new Map();
 	private mediaTypeCache: Map<string, MediaType> = new Map();
+	/** Remote type lookups in flight, shared by every caller asking about the same URL. */
+	private pendingMediaTypes: Map<string, Promise<MediaType>> = new Map();
+	/** Caps the remote type lookups running at once, so a slider full of links does not flood the network. */
+	private requestLimiter = createTaskLimiter(4);
 	private markdownCache: Map<string, string> = new Map();
+	/** Thumbnail URLs looked up or made this session, by cache key, shared by every slider showing the file. */
+	private previewCache: Map<string, Promise<string | null>> = new Map();
+	/** Previews decode whole files, so only a couple are made at a time. */
+	private previewLimiter = createTaskLimiter(2);
+	thumbnailCache: ThumbnailCache;
+	/** Renames whose slider blocks are not rewritten yet, oldest first; a folder move reports many at once. */
+	private pendingRenames: { oldPath: string; newPath: string; isFolder: boolean; rewrite: ReferenceRewriter }[] = [];
+	private requestSliderBlockRewrite = debounce(() => void this.rewriteRenamedReferences(), 500, true);
+	/** Parsed EXIF, XMP and IPTC data by file version. */
+	private imageMetadataCache: Map<string, Promise<ImageMetadata>> = new Map();
+	/** Compresses slide images off the main thread, for every slider. */
+	private compressionWorker = new CompressionWorker();
 	private notesManager: NotesManager;
 	private drawingData: { [key: string]: string } = {};
+	/** Playlist players by slider, kept across re-renders so playback is not interrupted. */
+	/** Playlist players by note and slider; they live as long as their note is open in some tab. */
+	private playlists: Map<string, { player: AudioPlaylist; sourcePath: string }> = new Map();
 	private static sliderCounter = 0;
 	activeSliderContent: HTMLElement | null = null;
     keydownHandlerInitialized: boolean = false;
@@ -86,6 +315,12 @@ export default class MediaSliderPlugin extends Plugin {
 	async onload() {
 		console.log("Loading Media Slider Plugin...");
 		await this.loadSettings();
+		this.thumbnailCache = new ThumbnailCache(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/thumbnail-cache`,
+			this.settings.thumbnailCacheSize * 1024 * 1024,
+			key => this.forgetThumbnail(key)
+		);
 		this.addSettingTab(new MediaSliderSettingTab(this.app, this));
 		this.notesManager = new NotesManager(this);
 		await this.notesManager.load();
@@ -95,12 +330,124 @@ export default class MediaSliderPlugin extends Plugin {
 			await this.createMediaSlider(source, el, ctx);
 		});
 
+		this.addCommand({
+			id: "insert-media-slider",
+			name: "Insert media slider",
+			editorCallback: (editor, view) => {
+				const defaults = this.getDefaultSliderSettings();
+				new SliderBuilderModal(this.app, {
+					sourcePath: view.file?.path ?? "",
+					mediaExtensions: DEFAULT_MEDIA_EXTENSIONS,
+					defaults: {
+						width: defaults.width,
+						height: defaults.height,
+						layout: defaults.layout,
+						columns: defaults.columns,
+						carouselShowThumbnails: defaults.carouselShowThumbnails,
+						thumbnailPosition: defaults.thumbnailPosition,
+						captionMode: defaults.captionMode,
+						transitionEffect: defaults.transitionEffect,
+						slideshowSpeed: defaults.slideshowSpeed,
+						compareMode: defaults.compareMode.enabled,
+						interactiveNotes: defaults.interactiveNotes,
+						recursive: defaults.recursive,
+						sort: defaults.sort,
+						order: defaults.order
+					},
+					schema: SLIDER_SETTINGS_SCHEMA,
+					transitionEffects: TRANSITION_EFFECTS,
+					layouts: GALLERY_LAYOUTS,
+					sortModes: FOLDER_SORT_MODES.filter(mode => mode !== "manual"),
+					presetNames: Object.keys(this.settings.presets),
+					onInsert: block => editor.replaceSelection(block)
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: "convert-embeds-to-slider",
+			name: "Convert selected embeds to slider",
+			editorCheckCallback: (checking, editor) => {
+				if (!editor.somethingSelected()) return false;
+				if (!checking) this.convertSelectionToSlider(editor, false);
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: "convert-embeds-to-slider-with-headings",
+			name: "Convert selected embeds to slider, using headings as captions",
+			editorCheckCallback: (checking, editor) => {
+				if (!editor.somethingSelected()) return false;
+				if (!checking) this.convertSelectionToSlider(editor, true);
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: "expand-slider-to-embeds",
+			name: "Expand slider into embeds",
+			editorCheckCallback: (checking, editor) => {
+				const lines = editor.getValue().split("\n");
+				const block = findSliderBlock(lines, editor.getCursor().line);
+				if (!block) return false;
+				if (!checking) {
+					const { lines: embeds, droppedHeader } = sliderBlockToEmbeds(lines.slice(block.start + 1, block.end));
+					editor.replaceRange(
+						embeds.join("\n"),
+						{ line: block.start, ch: 0 },
+						{ line: block.end, ch: lines[block.end].length }
+					);
+					if (droppedHeader) {
+						new Notice("The slider's YAML options were removed along with the block.");
+					}
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+			void this.handleRename(file, oldPath);
+		}));
+
+		this.registerEvent(this.app.workspace.on("layout-change", () => this.releaseClosedPlaylists()));
+		this.register(() => {
+			this.playlists.forEach(({ player }) => player.destroy());
+			this.playlists.clear();
+		});
+
 		
 	}
 
 
+	/**
+	 * Replaces the selected embeds with a media-slider block. Lines that are not embeds are kept
+	 * below the block rather than dropped.
+	 * @param editor - The active editor.
+	 * @param headingCaptions - Use the heading above an embed line as its caption.
+	 */
+	private convertSelectionToSlider(editor: Editor, headingCaptions: boolean): void {
+		const { block, leftover } = embedsToSliderBlock(editor.getSelection(), headingCaptions);
+		if (!block) {
+			new Notice("The selection has no embeds to convert.");
+			return;
+		}
+		editor.replaceSelection(leftover.length > 0 ? `${block}\n${leftover.join("\n")}\n` : block);
+		if (leftover.length > 0) {
+			new Notice(`${leftover.length} line(s) that are not embeds were kept below the slider.`);
+		}
+	}
+
+	onunload() {
+		this.requestSliderBlockRewrite.run();
+		this.compressionWorker.terminate();
+		this.thumbnailCache.flush();
+		for (const key of Array.from(this.previewCache.keys())) this.forgetThumbnail(key);
+	}
+
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings.presets = { ...this.settings.presets };
 	}
 
 	async saveSettings() {
@@ -138,6 +485,60 @@ export default class MediaSliderPlugin extends Plugin {
 		await this.saveDrawingData();
 	}
 
+	/**
+	 * Carries notes, drawings and media-slider block entries over to a renamed or moved file or
+	 * folder. Keys are rewritten in memory before anything is awaited, so a slider re-rendering
+	 * because of the rename already finds its notes under the new path. Slider blocks are rewritten
+	 * shortly after, for all renames of that moment together.
+	 * @param file - The file or folder after the rename.
+	 * @param oldPath - Its path before the rename.
+	 */
+	private async handleRename(file: TAbstractFile, oldPath: string): Promise<void> {
+		const isFolder = !(file instanceof TFile);
+		// Moving a folder also reports every file in it, which the folder's rewrite already covers.
+		const coveredByFolder = this.pendingRenames.some(rename =>
+			rename.isFolder && oldPath.startsWith(`${rename.oldPath}/`) && file.path.startsWith(`${rename.newPath}/`));
+		if (coveredByFolder) return;
+
+		// The vault as it was before the rename, to tell which file a bare file name pointed at.
+		const paths = isFolder ? undefined : this.app.vault.getFiles().map(other => other.path === file.path ? oldPath : other.path);
+		const rewrite = createReferenceRewriter(oldPath, file.path, isFolder, paths);
+		this.pendingRenames.push({ oldPath, newPath: file.path, isFolder, rewrite });
+		this.requestSliderBlockRewrite();
+		const rewriteKey = (key: string) => rewriteSliderKey(key, rewrite);
+
+		let drawingsChanged = false;
+		for (const key of Object.keys(this.drawingData)) {
+			const newKey = rewriteKey(key);
+			if (newKey !== null && newKey !== key) {
+				this.drawingData[newKey] = this.drawingData[key];
+				delete this.drawingData[key];
+				drawingsChanged = true;
+			}
+		}
+		// Notes are saved first: the notes store writes back the whole data file, drawings included,
+		// so saving drawings last keeps the renamed drawing keys.
+		await this.notesManager.renameKeys(rewriteKey).catch(console.error);
+		if (drawingsChanged) {
+			await this.saveDrawingData().catch(console.error);
+		}
+	}
+
+	/** Rewrites the media-slider blocks of every note for the renames collected so far, in one pass. */
+	private async rewriteRenamedReferences(): Promise<void> {
+		const renames = this.pendingRenames.splice(0);
+		if (renames.length === 0) return;
+		const rewrite = chainReferenceRewriters(renames.map(rename => rename.rewrite));
+		for (const note of this.app.vault.getMarkdownFiles()) {
+			const sections = this.app.metadataCache.getFileCache(note)?.sections;
+			if (!sections?.some(section => section.type === "code")) continue;
+			const content = await this.app.vault.cachedRead(note);
+			if (!content.includes("media-slider")) continue;
+			if (rewriteSliderBlocks(content, rewrite, note.path) === content) continue;
+			await this.app.vault.process(note, data => rewriteSliderBlocks(data, rewrite, note.path)).catch(console.error);
+		}
+	}
+
 	private getCachedResourcePath(fileName: string): string {
 		if (this.filePathCache.has(fileName)) {
 			return this.filePathCache.get(fileName)!;
@@ -239,7 +640,13 @@ export default class MediaSliderPlugin extends Plugin {
         } else if (this.isYouTubeURL(url)) {
             mediaType = MediaType.YOUTUBE;
         } else if (url.startsWith('http://') || url.startsWith('https://')) {
-            mediaType = await this.detectMediaTypeViaRequestHeaders(url);
+            let request = this.pendingMediaTypes.get(url);
+            if (!request) {
+                request = this.requestLimiter(() => this.detectMediaTypeViaRequestHeaders(url));
+                this.pendingMediaTypes.set(url, request);
+            }
+            mediaType = await request;
+            this.pendingMediaTypes.delete(url);
         } else {
             mediaType = MediaType.UNKNOWN;
         }
@@ -335,6 +742,177 @@ export default class MediaSliderPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Finds or makes the thumbnail of a slide: a scaled-down copy of a vault image, a video frame,
+	 * the first page of a PDF, or cover art or a waveform for audio. Thumbnails are kept in the
+	 * on-disk cache, so reopening a note does not decode the original files again.
+	 * @param fileName - The slide's path as listed in the slider.
+	 * @param filePath - Its resource URL.
+	 * @param mediaType - Its media type; other types have no thumbnail.
+	 * @param offset - Time in seconds of a video's frame.
+	 * @param sourcePath - Path of the note holding the slider, for resolving links.
+	 * @returns A URL of the thumbnail, or null when there is none and the caller falls back.
+	 */
+	private getSlideThumbnail(fileName: string, filePath: string, mediaType: MediaType, offset: number, sourcePath: string): Promise<string | null> {
+		const file = this.resolveSlideFile(fileName, sourcePath);
+		if (mediaType === MediaType.IMAGE) {
+			// Remote images and SVGs are shown as they are; they are not worth scaling ahead of time.
+			if (!file || file.extension.toLowerCase() === "svg") return Promise.resolve(null);
+		} else if (!this.settings.generatePreviews ||
+			(mediaType !== MediaType.VIDEO && mediaType !== MediaType.PDF && mediaType !== MediaType.AUDIO)) {
+			return Promise.resolve(null);
+		}
+		const variant = mediaType === MediaType.VIDEO ? `frame@${offset}` : mediaType.toLowerCase();
+		const key = file
+			? thumbnailKey(file.path, file.stat.mtime, file.stat.size, variant)
+			: thumbnailKey(filePath, 0, 0, variant);
+		const known = this.previewCache.get(key);
+		if (known) return known;
+
+		const readFile = async (): Promise<ArrayBuffer> =>
+			file ? this.app.vault.readBinary(file) : (await requestUrl({ url: filePath })).arrayBuffer;
+		const generate = async (): Promise<Blob | null> => {
+			if (mediaType === MediaType.IMAGE) return renderImageThumbnail(filePath);
+			if (mediaType === MediaType.VIDEO) return captureVideoFrame(filePath, offset);
+			if (mediaType === MediaType.PDF) return renderPdfFirstPage(await readFile());
+			// Remote audio is not downloaded just for a picture.
+			return file ? renderAudioPreview(await readFile(), this.settings.visualizerColor) : null;
+		};
+		const thumbnail = (async () => {
+			const cached = await this.thumbnailCache.get(key);
+			if (cached) return cached;
+			const blob = await this.previewLimiter(generate);
+			if (!blob) return null;
+			const stored = this.thumbnailCache.enabled ? await this.thumbnailCache.put(key, await blob.arrayBuffer()) : null;
+			return stored ?? URL.createObjectURL(blob);
+		})().catch(error => {
+			console.warn(`Media Slider: no thumbnail for ${fileName}:`, error);
+			return null;
+		});
+		this.previewCache.set(key, thumbnail);
+		return thumbnail;
+	}
+
+	/**
+	 * Compresses a slide image in the background worker, falling back to the main thread where
+	 * the worker cannot run or decode the image.
+	 * @param file - The vault file, or null for a remote image.
+	 * @param filePath - The image's resource URL.
+	 * @returns The compressed image.
+	 */
+	private async compressSlideImage(file: TFile | null, filePath: string, options: CompressionOptions): Promise<Blob> {
+		if (CompressionWorker.supported) {
+			try {
+				const data = file ? await this.app.vault.readBinary(file) : (await requestUrl({ url: filePath })).arrayBuffer;
+				return await this.compressionWorker.compress(data, options);
+			} catch (error) {
+				console.warn("Media Slider: compressing on the main thread instead:", error);
+			}
+		}
+		return compressImage(filePath, options);
+	}
+
+	/**
+	 * Compresses an image with the global settings, for the size readout in the settings tab.
+	 * A `fit` size is measured against the screen, the largest a slider can get.
+	 * @returns The compressed image and its pixel size.
+	 */
+	async measureCompression(file: TFile): Promise<{ blob: Blob; width: number; height: number }> {
+		const scale = window.devicePixelRatio || 1;
+		const size = this.settings.compressionSize === "fit"
+			? { width: Math.round(window.screen.width * scale), height: Math.round(window.screen.height * scale) }
+			: this.settings.compressionSize;
+		const blob = await this.compressSlideImage(file, this.app.vault.getResourcePath(file), {
+			maxWidth: size.width,
+			maxHeight: size.height,
+			quality: this.settings.compressionQuality,
+			format: this.settings.compressionFormat
+		});
+		const bitmap = await createImageBitmap(blob);
+		const measured = { blob, width: bitmap.width, height: bitmap.height };
+		bitmap.close();
+		return measured;
+	}
+
+	/** Drops a thumbnail from the session lookup, releasing it if it only lived in memory. */
+	private forgetThumbnail(key: string): void {
+		const thumbnail = this.previewCache.get(key);
+		this.previewCache.delete(key);
+		void thumbnail?.then(url => {
+			if (url?.startsWith("blob:")) URL.revokeObjectURL(url);
+		});
+	}
+
+	/** Empties the on-disk thumbnail cache and forgets the thumbnails shown so far. */
+	async clearThumbnailCache(): Promise<void> {
+		for (const key of Array.from(this.previewCache.keys())) this.forgetThumbnail(key);
+		await this.thumbnailCache.clear();
+	}
+
+	/**
+	 * Reads the metadata of a vault image from its bytes; nothing is fetched from the network.
+	 * @param file - The image.
+	 * @returns Its metadata; empty for files that are not JPEG, PNG or WebP images.
+	 */
+	getImageMetadata(file: TFile): Promise<ImageMetadata> {
+		const key = `${file.path}|${file.stat.mtime}`;
+		let metadata = this.imageMetadataCache.get(key);
+		if (!metadata) {
+			metadata = /^(jpe?g|png|webp)$/i.test(file.extension)
+				? this.app.vault.readBinary(file).then(readImageMetadata)
+				: Promise.resolve({});
+			metadata.catch(() => this.imageMetadataCache.delete(key));
+			this.imageMetadataCache.set(key, metadata);
+		}
+		return metadata;
+	}
+
+	/**
+	 * Fills the variables of a caption, such as `{date}` or `{camera}`, from the slide's file.
+	 * @param caption - The caption as written.
+	 * @param fileName - The slide's path as listed in the slider.
+	 * @param sourcePath - Path of the note holding the slider, for resolving links.
+	 * @returns The caption to show.
+	 */
+	private async resolveCaption(caption: string, fileName: string, sourcePath: string): Promise<string> {
+		if (!hasCaptionVariables(caption)) return caption;
+		const file = this.resolveSlideFile(fileName, sourcePath);
+		if (!file) return fillCaption(caption, {});
+		try {
+			return fillCaption(caption, captionVariables(await this.getImageMetadata(file), {
+				name: file.name,
+				basename: file.basename,
+				size: file.stat.size
+			}));
+		} catch (error) {
+			console.warn(`Media Slider: could not read the metadata of ${file.path}:`, error);
+			return fillCaption(caption, captionVariables({}, { name: file.name, basename: file.basename, size: file.stat.size }));
+		}
+	}
+
+	/**
+	 * Renders the opening of a note, without its properties, code blocks and embeds, as the
+	 * thumbnail of a markdown slide. Code blocks are left out so a note holding a slider does not
+	 * render another slider inside the thumbnail.
+	 * @param el - Where to render.
+	 * @param fileName - Vault path of the note.
+	 * @param component - Owns what the rendered markdown registers; unload it with the thumbnail.
+	 * @returns Whether anything was rendered.
+	 */
+	private async renderNotePreview(el: HTMLElement, fileName: string, component: Component): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(fileName);
+		if (!(file instanceof TFile)) return false;
+		const snippet = (await this.getMarkdownContent(fileName))
+			.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, "")
+			.replace(/^(```|~~~)[\s\S]*?(^\1|$(?![\s\S]))/gm, "")
+			.replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, "")
+			.trim()
+			.slice(0, 400);
+		if (!snippet) return false;
+		await MarkdownRenderer.render(this.app, snippet, el, file.path, component);
+		return true;
+	}
+
 	private throttle<T extends (...args: unknown[]) => unknown>(fn: T, delay: number): T {
 		let lastCall = 0;
 		return ((...args: unknown[]) => {
@@ -345,6 +923,43 @@ export default class MediaSliderPlugin extends Plugin {
 		}) as T;
 	}
 
+	/**
+	 * Looks up a named preset from the plugin settings and validates its YAML.
+	 * @param name - The value of the block's `preset:` key.
+	 * @returns The preset's accepted options, and any issues prefixed with the preset name.
+	 */
+	private resolvePreset(name: string): { value: Record<string, unknown>; issues: ValidationIssue[] } {
+		const presetNames = Object.keys(this.settings.presets);
+		if (!presetNames.includes(name)) {
+			return {
+				value: {},
+				issues: [{
+					key: "preset",
+					severity: "error",
+					message: presetNames.length > 0
+						? `No preset named "${name}". Available presets: ${presetNames.join(", ")}.`
+						: `No preset named "${name}". Presets are defined in the plugin settings.`,
+					suggestion: closestMatch(name, presetNames)
+				}]
+			};
+		}
+
+		let raw: unknown = null;
+		try {
+			raw = parseYaml(this.settings.presets[name]);
+		} catch (error) {
+			return {
+				value: {},
+				issues: [{ key: `preset ${name}`, severity: "error", message: `YAML syntax error: ${error.message ?? error}` }]
+			};
+		}
+		const { value, issues } = validateSettings(raw, PRESET_SCHEMA);
+		return {
+			value,
+			issues: issues.map(issue => ({ ...issue, key: `preset ${name}${issue.key ? ` › ${issue.key}` : ""}` }))
+		};
+	}
+
 	private async getFolderMedia(folderPath: string, settings: SliderSettings): Promise<string[]> {
 		const folder = this.app.vault.getAbstractFileByPath(folderPath);
 		if (!folder || !("children" in folder)) {
@@ -353,15 +968,10 @@ export default class MediaSliderPlugin extends Plugin {
 		}
 
 		
-		const mediaFiles: string[] = [];
+		const mediaFiles: TFile[] = [];
 		
 		
-		let fileTypeFilters = [
-			"png", "jpg", "jpeg", "gif", "svg", "webp", "bmp", "avif",
-			"mp4", "webm", "mkv", "mov", "ogv",
-			"mp3", "ogg", "wav", "flac", "m4a",
-			"pdf", "md"
-		];
+		let fileTypeFilters = DEFAULT_MEDIA_EXTENSIONS;
 		
 		
 		if (settings.fileTypes && Array.isArray(settings.fileTypes)) {
@@ -369,6 +979,8 @@ export default class MediaSliderPlugin extends Plugin {
 		}
 		
 		const recursive = settings.recursive !== false; 
+		const matchesPatterns = createPathFilter(settings.include, settings.exclude);
+		const folderPrefix = folder.path === "/" ? "" : `${folder.path}/`;
 		
 		const collectMediaFiles = (abstractFile: TAbstractFile) => {
 			if ('children' in abstractFile && Array.isArray(abstractFile.children)) {
@@ -376,8 +988,14 @@ export default class MediaSliderPlugin extends Plugin {
 					abstractFile.children.forEach((child: TAbstractFile) => collectMediaFiles(child));
 				}
 			} else if (abstractFile instanceof TFile) {
-				if (fileTypeFilters.includes(abstractFile.extension.toLowerCase())) {
-					mediaFiles.push(abstractFile.path);
+				const relativePath = abstractFile.path.startsWith(folderPrefix)
+					? abstractFile.path.substring(folderPrefix.length)
+					: abstractFile.path;
+				if (
+					fileTypeFilters.includes(abstractFile.extension.toLowerCase()) &&
+					matchesPatterns(relativePath, abstractFile.path)
+				) {
+					mediaFiles.push(abstractFile);
 				}
 			}
 		};
@@ -385,56 +1003,26 @@ export default class MediaSliderPlugin extends Plugin {
 		collectMediaFiles(folder as TAbstractFile);
 		
 		
-		return mediaFiles.sort();
+		return sortFolderFiles(mediaFiles, settings.sort, settings.order, settings.seed, settings.manualOrder ?? []).map(file => file.path);
 	}
 
 	
 	private parseMediaFiles(mediaLines: string[]): {
-		fileEntries: { path: string; caption: string | null; compareGroup: string | null }[];
+		fileEntries: SliderEntry[];
 		compareGroups: Map<string, { files: { path: string; caption: string | null }[]; processed: boolean }>;
+		attributeIssues: ValidationIssue[];
 	} {
-		const fileEntries: { path: string; caption: string | null; compareGroup: string | null }[] = [];
+		const fileEntries: SliderEntry[] = [];
+		const attributeIssues: ValidationIssue[] = [];
 		
 		
-		for (const line of mediaLines) {
-			let path = "";
-			let caption = null;
-			let compareGroup = null;
-			
-			
-			const markdownMatch = line.match(/!?\[(.*?)\]\((.*?)(?:\s*\|\s*(.*?))?\)/);
-			if (markdownMatch) {
-				path = markdownMatch[2].trim();
-				
-				caption = markdownMatch[3] ? markdownMatch[3].trim() : 
-						 (markdownMatch[1] ? markdownMatch[1].trim() : null);
-				fileEntries.push({ path, caption, compareGroup });
-				continue;
-			}
-			
-			
-			const compareModeMatch = line.match(/!?\[\[(.*?)(?:\|(.*?))?\s*\|\|\s*([\w\d-]+)\s*\]\]/);
-			if (compareModeMatch) {
-				path = compareModeMatch[1].trim();
-				caption = compareModeMatch[2] ? compareModeMatch[2].trim() : null;
-				compareGroup = compareModeMatch[3].trim();
-				fileEntries.push({ path, caption, compareGroup });
-				continue;
-			}
-			
-			
-			const match = line.match(/!?\[\[(.*?)(?:\|(.*?))?\]\]/);
-			if (match) {
-				path = match[1].trim();
-				caption = match[2] ? match[2].trim() : null;
-				fileEntries.push({ path, caption, compareGroup: null });
-				continue;
+		for (const rawLine of mediaLines) {
+			const { entry, errors } = parseSliderEntry(rawLine);
+			for (const message of errors) {
+				attributeIssues.push({ key: rawLine, severity: "warning", message });
 			}
-			
-			
-			if (line.trim()) {
-				path = line.trim();
-				fileEntries.push({ path, caption: null, compareGroup: null });
+			if (entry) {
+				fileEntries.push(entry);
 			}
 		}
 		
@@ -457,32 +1045,51 @@ export default class MediaSliderPlugin extends Plugin {
 			}
 		}
 		
-		return { fileEntries, compareGroups };
+		return { fileEntries, compareGroups, attributeIssues };
 	}
 
-	private async createMediaSlider(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
-		
-		const metadataMatch = source.match(/---\n([\s\S]+?)\n---/);
-		const mediaContent = source.replace(/---\n[\s\S]+?\n---/, "").trim();
-		const mediaLines = mediaContent.split("\n").map(line => line.trim()).filter(Boolean);
-
-		
-		let settings: SliderSettings = {
+	private getDefaultSliderSettings(): SliderSettings {
+		return {
 			sliderId: "",
 			carouselShowThumbnails: true,
 			thumbnailPosition: "bottom",
+			thumbnailOffset: 1,
 			captionMode: "overlay",
 			autoplay: false,
 			slideshowSpeed: 0,
 			width: "100%",
 			height: "380px",
+			layout: "carousel",
+			columns: 3,
+			gap: "8px",
+			rowHeight: "200px",
+			slidesPerView: 1,
+			slidesPerGroup: 1,
+			centered: false,
+			peek: "0",
 			transitionEffect: "fade",
 			transitionDuration: 0.1,
 			enhancedView: true,
 			interactiveNotes: false,
 			fileTypes: null,
 			recursive: false,
+			source: null,
+			include: null,
+			exclude: null,
+			sort: "name",
+			order: "asc",
+			seed: null,
+			manualOrder: null,
+			advanceOnEnd: false,
+			playlist: false,
+			pauseOnHover: false,
+			waitForMedia: false,
+			stopAtEnd: false,
+			shuffle: false,
+			repeat: "off",
 			compression: null,
+			compressionSize: this.settings.compressionSize,
+			compressionFormat: this.settings.compressionFormat,
 			compareMode: {
 				enabled: this.settings.enableCompareMode,
 				orientation: "vertical",
@@ -493,45 +1100,77 @@ export default class MediaSliderPlugin extends Plugin {
 				swapImages: false
 			}
 		};
+	}
 
+	private async createMediaSlider(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+		
+		const metadataMatch = source.match(/---\n([\s\S]+?)\n---/);
+		const mediaContent = source.replace(/---\n[\s\S]+?\n---/, "").trim();
+		const mediaLines = mediaContent.split("\n").map(line => line.trim()).filter(Boolean);
+
+		
+		let settings = this.getDefaultSliderSettings();
+
+		const validationIssues: ValidationIssue[] = [];
 		if (metadataMatch) {
+			let rawSettings: unknown = null;
 			try {
-				const parsedSettings = parseYaml(metadataMatch[1]) as Record<string, unknown>;
-				settings = Object.assign({}, settings, parsedSettings) as SliderSettings;
-
-				if (parsedSettings.compareMode !== undefined) {
-					if (typeof parsedSettings.compareMode === 'boolean') {
-						const compareModeDefaults: CompareModeSettings = {
-							...settings.compareMode,
-							enabled: parsedSettings.compareMode
-						};
-
-						// Apply individual compare mode settings if provided at top level
-						if (parsedSettings.orientation !== undefined) {
-							compareModeDefaults.orientation = parsedSettings.orientation as "horizontal" | "vertical";
-						}
-						if (parsedSettings.initialPosition !== undefined) {
-							compareModeDefaults.initialPosition = parsedSettings.initialPosition as number;
-						}
-						if (parsedSettings.showLabels !== undefined) {
-							compareModeDefaults.showLabels = parsedSettings.showLabels as boolean;
-						}
-						if (parsedSettings.label1 !== undefined) {
-							compareModeDefaults.label1 = parsedSettings.label1 as string;
-						}
-						if (parsedSettings.label2 !== undefined) {
-							compareModeDefaults.label2 = parsedSettings.label2 as string;
-						}
-						if (parsedSettings.swapImages !== undefined) {
-							compareModeDefaults.swapImages = parsedSettings.swapImages as boolean;
-						}
-						settings.compareMode = compareModeDefaults;
-					} else if (typeof parsedSettings.compareMode === 'object') {
-						settings.compareMode = Object.assign({}, settings.compareMode, parsedSettings.compareMode);
-					}
-				}
+				rawSettings = parseYaml(metadataMatch[1]);
 			} catch (error) {
 				console.error("Failed to parse media-slider metadata:", error);
+				validationIssues.push({
+					key: "",
+					severity: "error",
+					message: `YAML syntax error: ${error.message ?? error}`
+				});
+			}
+			const { value: localSettings, issues } = validateSettings(rawSettings, SLIDER_SETTINGS_SCHEMA);
+			validationIssues.push(...issues);
+
+			let parsedSettings = localSettings;
+			if (typeof localSettings.preset === "string") {
+				const preset = this.resolvePreset(localSettings.preset);
+				validationIssues.push(...preset.issues);
+				parsedSettings = { ...preset.value, ...localSettings };
+				const presetCompareMode = preset.value.compareMode;
+				if (typeof presetCompareMode === "object" && localSettings.compareMode !== undefined) {
+					parsedSettings.compareMode = typeof localSettings.compareMode === "object"
+						? { ...presetCompareMode, ...localSettings.compareMode }
+						: { ...presetCompareMode, enabled: localSettings.compareMode };
+				}
+			}
+			settings = Object.assign({}, settings, parsedSettings) as SliderSettings;
+
+			if (parsedSettings.compareMode !== undefined) {
+				if (typeof parsedSettings.compareMode === 'boolean') {
+					const compareModeDefaults: CompareModeSettings = {
+						...settings.compareMode,
+						enabled: parsedSettings.compareMode
+					};
+
+					// Apply individual compare mode settings if provided at top level
+					if (parsedSettings.orientation !== undefined) {
+						compareModeDefaults.orientation = parsedSettings.orientation as "horizontal" | "vertical";
+					}
+					if (parsedSettings.initialPosition !== undefined) {
+						compareModeDefaults.initialPosition = parsedSettings.initialPosition as number;
+					}
+					if (parsedSettings.showLabels !== undefined) {
+						compareModeDefaults.showLabels = parsedSettings.showLabels as boolean;
+					}
+					if (parsedSettings.label1 !== undefined) {
+						compareModeDefaults.label1 = parsedSettings.label1 as string;
+					}
+					if (parsedSettings.label2 !== undefined) {
+						compareModeDefaults.label2 = parsedSettings.label2 as string;
+					}
+					if (parsedSettings.swapImages !== undefined) {
+						compareModeDefaults.swapImages = parsedSettings.swapImages as boolean;
+					}
+					settings.compareMode = compareModeDefaults;
+				} else if (typeof parsedSettings.compareMode === 'object') {
+					settings.compareMode = Object.assign({}, settings.compareMode, parsedSettings.compareMode);
+				}
 			}
 		}
 
@@ -540,11 +1179,78 @@ export default class MediaSliderPlugin extends Plugin {
 			sliderId = `slider-${MediaSliderPlugin.sliderCounter++}`;
 		}
 
-		
+		if (settings.source === "self" && !mediaLines.includes(SELF_EMBEDS_LINE)) {
+			mediaLines.unshift(SELF_EMBEDS_LINE);
+		}
+		const entries = await this.resolveSliderEntries(mediaLines, settings, ctx, el, validationIssues);
+		const resolveEntries = () => this.resolveSliderEntries(mediaLines, settings, ctx, el, []);
+
+		if (entries.files.length === 0) {
+			el.createEl("p", { text: "No valid media files found." });
+			renderValidationPanel(el, validationIssues);
+			this.watchSliderSources(el, ctx, entries, resolveEntries, null, () => this.createMediaSlider(source, el, ctx));
+			return;
+		}
+
+		await this.notesManager.cleanupNotesForSlider(sliderId, entries.files).catch(console.error);
+		await this.cleanupDrawingData(sliderId, entries.files).catch(console.error);
+
+		const slider = this.renderSlider(el, entries.files, settings, sliderId, ctx, entries.compareGroups, entries.slideAttributes, entries.origins);
+		renderValidationPanel(el, validationIssues);
+		this.watchSliderSources(el, ctx, entries, resolveEntries, slider, () => this.createMediaSlider(source, el, ctx));
+	}
+
+	/**
+	 * Expands the source lines of a block (files, folders, queries and the note's own embeds)
+	 * into slide entries.
+	 * @param mediaLines - The block's source lines below the YAML header.
+	 * @param settings - The resolved slider settings.
+	 * @param validationIssues - Collects problems with individual lines.
+	 * @returns The entries along with what they were built from, for live updates.
+	 */
+	private async resolveSliderEntries(
+		mediaLines: string[],
+		settings: SliderSettings,
+		ctx: MarkdownPostProcessorContext,
+		el: HTMLElement,
+		validationIssues: ValidationIssue[]
+	): Promise<SliderEntries> {
 		let mediaFiles: string[] = [];
-		
+		// Parallel to mediaFiles: the source line each expanded entry came from.
+		let mediaOrigins: SlideOrigin[] = [];
+		const matchesPatterns = createPathFilter(settings.include, settings.exclude);
+		const acceptsMedia = (file: TFile) => {
+			const fileTypeFilters = settings.fileTypes ?? DEFAULT_MEDIA_EXTENSIONS;
+			return fileTypeFilters.includes(file.extension.toLowerCase()) && matchesPatterns(file.path, file.path);
+		};
+
+		const folders: string[] = [];
+		const queries: string[] = [];
+		const queryNotes = new Set<string>();
 		
 		for (const line of mediaLines) {
+			if (line === SELF_EMBEDS_LINE) {
+				const section = ctx.getSectionInfo(el);
+				const skipLines = section ? { start: section.lineStart, end: section.lineEnd } : null;
+				const selfEmbeds = collectNoteEmbeds(this.app, ctx.sourcePath, skipLines, acceptsMedia);
+				mediaFiles = mediaFiles.concat(selfEmbeds.map(file => `![[${file.path}]]`));
+				mediaOrigins = mediaOrigins.concat(selfEmbeds.map(() => ({ line, derived: true })));
+				queries.push(line);
+				queryNotes.add(ctx.sourcePath);
+				continue;
+			}
+
+			const queryResult = resolveMediaQuery(this.app, line, ctx.sourcePath, acceptsMedia);
+			if (queryResult) {
+				queries.push(line);
+				queryResult.notes.forEach(note => queryNotes.add(note));
+				if (queryResult.error) {
+					validationIssues.push({ key: line, severity: "warning", message: queryResult.error });
+				}
+				mediaFiles = mediaFiles.concat(queryResult.files.map(file => `![[${file.path}]]`));
+				mediaOrigins = mediaOrigins.concat(queryResult.files.map(() => ({ line, derived: true })));
+				continue;
+			}
 			
 			const folderMatch = line.match(/!?\[\[(.*?\/)\]\]/);
 			if (folderMatch) {
@@ -553,24 +1259,29 @@ export default class MediaSliderPlugin extends Plugin {
 					: folderMatch[1];
 					
 				
+				folders.push(folderPath);
 				const folderFiles = await this.getFolderMedia(folderPath, settings);
 				
 				
 				mediaFiles = mediaFiles.concat(folderFiles.map(file => `![[${file}]]`));
+				mediaOrigins = mediaOrigins.concat(folderFiles.map(file => ({ line, folderFile: file })));
 			} else {
 				
 				mediaFiles.push(line);
+				mediaOrigins.push({ line });
 			}
 		}
 		
 		
-		const { fileEntries, compareGroups } = this.parseMediaFiles(mediaFiles);
-		
-		
+		const { fileEntries, compareGroups, attributeIssues } = this.parseMediaFiles(mediaFiles);
+		validationIssues.push(...attributeIssues);
 		const processedFiles: string[] = [];
+		const processedOrigins: SlideOrigin[] = [];
+		const processedAttributes: (SlideAttributes | undefined)[] = [];
 		const processedGroupIds = new Set<string>();
 		
-		for (const entry of fileEntries) {
+		// Every media line is non-blank, so parseMediaFiles yields exactly one entry per line.
+		fileEntries.forEach((entry, entryIndex) => {
 			if (entry.compareGroup) {
 				const groupId = entry.compareGroup.split('-')[0];
 				if (!processedGroupIds.has(groupId)) {
@@ -578,6 +1289,8 @@ export default class MediaSliderPlugin extends Plugin {
 					if (settings.compareMode && settings.compareMode.enabled) {
 						
 						processedFiles.push(`__COMPARE_GROUP_${groupId}`);
+						processedOrigins.push({ line: null, compareGroup: groupId });
+						processedAttributes.push(undefined);
 					} else {
 						
 						const group = compareGroups.get(groupId);
@@ -586,6 +1299,9 @@ export default class MediaSliderPlugin extends Plugin {
 								processedFiles.push(file.caption 
 									? `![[${file.path}|${file.caption}]]`
 									: `![[${file.path}]]`);
+								processedOrigins.push({ line: null, compareGroup: groupId });
+								processedAttributes.push(fileEntries.find(other =>
+									other.compareGroup?.split("-")[0] === groupId && other.path === file.path)?.attributes ?? undefined);
 							}
 						}
 					}
@@ -595,14 +1311,16 @@ export default class MediaSliderPlugin extends Plugin {
 				processedFiles.push(entry.caption 
 					? `![[${entry.path}|${entry.caption}]]` 
 					: `![[${entry.path}]]`);
+				processedOrigins.push(mediaOrigins[entryIndex]);
+				processedAttributes.push(entry.attributes ?? undefined);
 			}
-		}
+		});
 
 	
 		
 		
 	
-		const validFiles = processedFiles.map(file => {
+		const normalizedFiles = processedFiles.map(file => {
 		  if (file.startsWith('__COMPARE_GROUP_')) {
 		    return file;
 		  }
@@ -613,17 +1331,129 @@ export default class MediaSliderPlugin extends Plugin {
 		  return caption
 		    ? `${path}|${caption}`
 		    : path;
-		}).filter(Boolean);
+		});
+		const validFiles = normalizedFiles.filter(Boolean);
+		const origins = processedOrigins.filter((_, index) => !!normalizedFiles[index]);
+		const slideAttributes = processedAttributes.filter((_, index) => !!normalizedFiles[index]);
+
+		return {
+			files: validFiles,
+			origins,
+			compareGroups,
+			slideAttributes,
+			folders,
+			usesMetadata: queries.length > 0,
+			queries,
+			queryNotes: Array.from(queryNotes)
+		};
+	}
 
-		if (validFiles.length === 0) {
-			el.createEl("p", { text: "No valid media files found." });
-			return;
+	/**
+	 * Keeps a rendered slider in sync with the vault. Vault events touching its folders or files,
+	 * and metadata changes for query and `source: self` sliders, re-resolve the entry list; the
+	 * slider is updated in place unless it becomes empty or was empty, which re-renders the block.
+	 * @param el - The code block element; the watcher lives as long as it does.
+	 * @param entries - The entries currently shown.
+	 * @param resolveEntries - Re-runs source expansion for the block.
+	 * @param slider - The rendered slider, or null when no media was found.
+	 * @param rerender - Rebuilds the whole block.
+	 */
+	private watchSliderSources(
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		entries: SliderEntries,
+		resolveEntries: () => Promise<SliderEntries>,
+		slider: SliderController | null,
+		rerender: () => Promise<void>
+	): void {
+		const watcher = new MarkdownRenderChild(el);
+		let current = entries;
+		// Entries may name a file by full path, bare file name, or (for notes) without the extension.
+		const referencesPath = (path: string) => current.files
+			.flatMap(entry => entry.startsWith("__COMPARE_GROUP_")
+				? current.compareGroups.get(entry.slice("__COMPARE_GROUP_".length))?.files.map(file => file.path) ?? []
+				: [entry.split("|")[0].trim()])
+			.some(name => [name, `${name}.md`].some(candidate => path === candidate || path.endsWith(`/${candidate}`)));
+		const inWatchedFolder = (path: string) =>
+			current.folders.some(folder => folder === "" || folder === "/" || path.startsWith(`${folder}/`));
+
+		const refresh = debounce(async () => {
+			const next = await resolveEntries();
+			const unchanged = next.files.join("\n") === current.files.join("\n")
+				&& JSON.stringify(next.slideAttributes) === JSON.stringify(current.slideAttributes);
+			if (unchanged) {
+				current.queryNotes = next.queryNotes;
+				return;
+			}
+			if (!slider || next.files.length === 0) {
+				watcher.unload();
+				el.empty();
+				await rerender();
+				return;
+			}
+			current = next;
+			slider.setEntries(next);
+		}, 300, true);
+
+		watcher.registerEvent(this.app.vault.on("create", file => {
+			if (current.usesMetadata || inWatchedFolder(file.path) || referencesPath(file.path)) refresh();
+		}));
+		watcher.registerEvent(this.app.vault.on("delete", file => {
+			this.invalidateFileCaches(file.path);
+			if (current.usesMetadata || inWatchedFolder(file.path) || referencesPath(file.path)) refresh();
+		}));
+		watcher.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+			this.invalidateFileCaches(oldPath);
+			if (
+				current.usesMetadata ||
+				inWatchedFolder(file.path) ||
+				inWatchedFolder(oldPath) ||
+				referencesPath(oldPath) ||
+				referencesPath(file.path)
+			) {
+				refresh();
+			}
+		}));
+		watcher.registerEvent(this.app.vault.on("modify", file => {
+			if (!referencesPath(file.path)) return;
+			this.invalidateFileCaches(file.path);
+			slider?.refreshFile(file.path);
+			// Content changes can reorder folders sorted by modified time or size.
+			if (inWatchedFolder(file.path)) refresh();
+		}));
+		if (current.usesMetadata) {
+			// Only notes a query takes media from, now or before the change, can alter the list.
+			const affectsQueries = (file: TFile) =>
+				current.queryNotes.includes(file.path) ||
+				current.queries.some(line => line === SELF_EMBEDS_LINE
+					? file.path === ctx.sourcePath
+					: queryMatchesNote(this.app, line, ctx.sourcePath, file));
+			watcher.registerEvent(this.app.metadataCache.on("changed", file => {
+				if (affectsQueries(file)) refresh();
+			}));
 		}
 
-		await this.notesManager.cleanupNotesForSlider(sliderId, validFiles).catch(console.error);
-		await this.cleanupDrawingData(sliderId, validFiles).catch(console.error);
+		ctx.addChild(watcher);
+	}
 
-		this.renderSlider(el, validFiles, settings, sliderId, ctx, compareGroups);
+	/**
+	 * Drops cached resource paths and markdown content for a file that changed on disk.
+	 * @param path - Vault path of the file.
+	 */
+	private invalidateFileCaches(path: string): void {
+		this.markdownCache.delete(path);
+		for (const key of Array.from(this.previewCache.keys())) {
+			if (key.startsWith(`${path}|`)) this.forgetThumbnail(key);
+		}
+		void this.thumbnailCache.invalidate(path);
+		for (const key of Array.from(this.imageMetadataCache.keys())) {
+			if (key.startsWith(`${path}|`)) this.imageMetadataCache.delete(key);
+		}
+		for (const key of Array.from(this.filePathCache.keys())) {
+			if (key === path || key.endsWith(`/${path}`) || path.endsWith(`/${key}`)) {
+				this.filePathCache.delete(key);
+			}
+		}
 	}
 
 	private renderSlider(
@@ -632,14 +1462,51 @@ export default class MediaSliderPlugin extends Plugin {
 		settings: SliderSettings,
 		sliderId: string,
 		ctx: MarkdownPostProcessorContext,
-		compareGroups: Map<string, { files: { path: string; caption: string | null }[]; processed: boolean }> = new Map()
-	) {
+		compareGroups: Map<string, { files: { path: string; caption: string | null }[]; processed: boolean }> = new Map(),
+		slideAttributes: (SlideAttributes | undefined)[] = [],
+		origins: SlideOrigin[] = []
+	): SliderController {
 		
-		container.querySelectorAll('.fullscreen-btn, .copy-btn, .notes-toggle-btn, .drawing-toggle-btn').forEach(btn => btn.remove());
+		container.querySelectorAll('.fullscreen-btn, .copy-btn, .ms-info-btn, .notes-toggle-btn, .drawing-toggle-btn').forEach(btn => btn.remove());
 
 		container.empty();
 
+		// Gallery layouts show every slide as a tile; the slider itself becomes their lightbox.
+		const galleryEl = settings.layout !== "carousel"
+			? createGallery(container, {
+				layout: settings.layout,
+				columns: settings.columns,
+				gap: settings.gap,
+				rowHeight: settings.rowHeight,
+				width: settings.width
+			})
+			: null;
+
 		let updateDrawingOverlay: ((mediaKey: string) => void) | undefined;
+		// Set while the current slide is autoplaying media that moves on by itself when it finishes.
+		let slideAdvancesItself = false;
+		// Bumped whenever the shown slides are cleared, so a slow render can tell it was overtaken.
+		let slideRender = 0;
+		// The slideshow's play/pause button, created further down when the slideshow is on.
+		let slideshowToggle: HTMLButtonElement | null = null;
+		const updateSlideshowToggle = () => {
+			if (!slideshowToggle) return;
+			const playing = slideshow.isRunning && !slideshow.isHeld("user");
+			setIcon(slideshowToggle, playing ? "pause" : "play");
+			slideshowToggle.setAttr("aria-label", playing ? "Pause slideshow" : "Play slideshow");
+		};
+		const advanceSlideshow = () => {
+			if (settings.stopAtEnd && isAtLastStep(currentIndex, files.length, slideView)) {
+				slideshow.stop();
+				updateSlideshowToggle();
+				return;
+			}
+			goNext();
+		};
+		let progressFill: HTMLElement | null = null;
+		const slideshow = new SlideshowTimer(advanceSlideshow, fraction => {
+			progressFill?.style.setProperty("width", `${fraction * 100}%`);
+		});
 		const sliderWrapper = container.createDiv("media-slider-wrapper");
 
 		// Add hover-only controls class if enabled
@@ -658,14 +1525,35 @@ export default class MediaSliderPlugin extends Plugin {
 		}
 
 		const sliderContent = sliderWrapper.createDiv("slider-content");
-		sliderContent.style.setProperty('--slider-width', settings.width);
-		sliderContent.style.setProperty('--slider-height', settings.height);
+		sliderContent.style.setProperty('--slider-width', galleryEl ? "100%" : settings.width);
+		sliderContent.style.setProperty('--slider-height', galleryEl ? "100%" : settings.height);
 		sliderContent.style.setProperty('--transition-duration', settings.transitionDuration + 'ms');
 
 		const sliderContainer = sliderContent.createDiv("slider-container");
 		const mediaWrapper = sliderContainer.createDiv("media-wrapper");
 		const captionContainer = sliderContent.createDiv("slider-caption-container");
 
+		let playlist: AudioPlaylist | null = null;
+		if (settings.playlist) {
+			playlist = this.getPlaylist(`${ctx.sourcePath}\n${files.join("\n")}`, ctx.sourcePath, settings);
+			const player = playlist;
+			const detachBar = player.renderBar(sliderContent);
+			const detachSlider = player.attach(track => {
+				const shown = alignSlide(track.slideIndex, files.length, slideView);
+				if (shown !== currentIndex) {
+					currentIndex = shown;
+					throttledUpdate();
+				}
+			});
+			const playlistChild = new MarkdownRenderChild(container);
+			playlistChild.register(detachBar);
+			playlistChild.register(detachSlider);
+			ctx.addChild(playlistChild);
+			void this.loadPlaylistTracks(player, files, slideAttributes).then(() => {
+				if (!player.current) player.select(currentIndex, false);
+			});
+		}
+
 		let thumbnailContainer: HTMLElement | null = null;
 		const thumbnailEls: HTMLElement[] = [];
 		let thumbnailSection: HTMLElement | null = null;
@@ -737,12 +1625,67 @@ export default class MediaSliderPlugin extends Plugin {
 			}
 		}
 
-		let currentIndex = 0;
+		// How many slides are in view and how far a step moves. With several in view, or with
+		// peeking neighbours, `currentIndex` is the first slide in view, or the middle one when centered.
+		const slideView: SlideViewOptions & { multi: boolean } = {
+			perView: 1,
+			perGroup: settings.slidesPerGroup,
+			centered: settings.centered,
+			peek: parseFloat(settings.peek) !== 0,
+			multi: false
+		};
+		const updateSlideView = () => {
+			slideView.perView = resolveSlidesPerView(settings.slidesPerView, sliderContent.clientWidth);
+			slideView.multi = slideView.perView > 1 || slideView.peek;
+		};
+		updateSlideView();
+
+		// A slider re-rendered while its playlist plays opens on the playing track.
+		let currentIndex = alignSlide(playlist?.current?.slideIndex ?? 0, files.length, slideView);
 		let currentDirection: "next" | "prev" = "next";
 		
 		
 		const compareInstances: { [key: string]: CompareMode } = {};
 
+		// Details of the current slide's photos, read from the files themselves. Filled only while open.
+		let infoPanel: HTMLElement | null = null;
+		let infoRun = 0;
+		const updateInfoPanel = async () => {
+			const panel = infoPanel;
+			if (!panel?.hasClass("visible")) return;
+			const run = ++infoRun;
+			const entry = files[currentIndex] ?? "";
+			const paths = entry.startsWith("__COMPARE_GROUP_")
+				? compareGroups.get(entry.slice("__COMPARE_GROUP_".length))?.files.map(file => file.path) ?? []
+				: entry ? [entry.split("|")[0].trim()] : [];
+			const details = await Promise.all(paths.map(async path => {
+				const file = this.resolveSlideFile(path, ctx.sourcePath);
+				const metadata = file ? await this.getImageMetadata(file).catch((): ImageMetadata => ({})) : null;
+				return { path, file, metadata };
+			}));
+			if (run !== infoRun) return;
+
+			panel.empty();
+			for (const { path, file, metadata } of details) {
+				panel.createDiv({ cls: "ms-info-title", text: file?.name ?? path });
+				if (!file || !metadata) {
+					panel.createDiv({ cls: "ms-info-empty", text: "Details are only read from files in the vault." });
+					continue;
+				}
+				const list = panel.createEl("dl", { cls: "ms-info-list" });
+				const row = (label: string, value: string) => {
+					list.createEl("dt", { text: label });
+					list.createEl("dd", { text: value });
+				};
+				for (const [key, label] of METADATA_LABELS) {
+					const value = metadata[key];
+					if (value !== undefined) row(label, Array.isArray(value) ? value.join(", ") : String(value));
+				}
+				if (metadata.width && metadata.height) row("Dimensions", `${metadata.width} × ${metadata.height}`);
+				row("File size", formatFileSize(file.stat.size));
+			}
+		};
+
 		
 		if (settings.enhancedView) {
 			const fullScreenBtn = sliderWrapper.createEl("button", { cls: "fullscreen-btn" });
@@ -764,10 +1707,11 @@ export default class MediaSliderPlugin extends Plugin {
 					const currentEntry = files[currentIndex];
 
 
-					if (currentEntry.startsWith('__COMPARE_GROUP_')) return;
-
-					const [fileName] = currentEntry.split("|").map(s => s.trim());
-					const markdownLink = `![[${fileName}]]`;
+					const fileNames = currentEntry.startsWith('__COMPARE_GROUP_')
+						? compareGroups.get(currentEntry.slice('__COMPARE_GROUP_'.length))?.files.map(file => file.path) ?? []
+						: [currentEntry.split("|")[0].trim()];
+					if (fileNames.length === 0) return;
+					const markdownLink = fileNames.map(fileName => `![[${fileName}]]`).join("\n");
 					try {
 						await navigator.clipboard.writeText(markdownLink);
 						console.log("Copied markdown link to clipboard:", markdownLink);
@@ -776,6 +1720,18 @@ export default class MediaSliderPlugin extends Plugin {
 					}
 				};
 			}
+
+			if (this.settings.showInfoButton) {
+				const infoBtn = sliderWrapper.createEl("button", { cls: "ms-info-btn", attr: { "aria-label": "Photo details" } });
+				setIcon(infoBtn, "info");
+				const panel = sliderWrapper.createDiv("ms-info-panel");
+				infoPanel = panel;
+				infoBtn.onclick = () => {
+					panel.toggleClass("visible", !panel.hasClass("visible"));
+					infoBtn.toggleClass("is-active", panel.hasClass("visible"));
+					void updateInfoPanel();
+				};
+			}
 		}
 
 		
@@ -878,93 +1834,33 @@ export default class MediaSliderPlugin extends Plugin {
 		
 		
 		
-		const updateMediaDisplay = async () => {
-			
-			Object.values(compareInstances).forEach(instance => {
-				instance.destroy();
-			});
-			
-			
-			Object.keys(compareInstances).forEach(key => {
-				delete compareInstances[key];
-			});
-			
-			
-			mediaWrapper.classList.remove(
-				"transition-fade-in", "transition-slide-next-in", "transition-slide-prev-in", "transition-zoom-in",
-				"transition-slide-up-in", "transition-slide-down-in", "transition-flip-in", "transition-flip-vertical-in",
-				"transition-rotate-in", "transition-blur-in", "transition-squeeze-in",
-				"transition-fade-out", "transition-slide-next-out", "transition-slide-prev-out", "transition-zoom-out",
-				"transition-slide-up-out", "transition-slide-down-out", "transition-flip-out", "transition-flip-vertical-out",
-				"transition-rotate-out", "transition-blur-out", "transition-squeeze-out"
-			);
+		const syncActiveThumbnail = () => {
+			if (thumbnailEls.length > 0) {
+				const inView = new Set(slideView.multi
+					? visibleSlides(currentIndex, files.length, slideView).filter(slide => !slide.peek).map(slide => slide.index)
+					: []);
+				thumbnailEls.forEach((thumb, idx) => {
+					thumb.classList.toggle("active-thumbnail", idx === currentIndex);
+					thumb.classList.toggle("ms-thumb-in-view", inView.has(idx));
+				});
 
 			
-			switch (settings.transitionEffect) {
-				case "fade":
-					mediaWrapper.classList.add("transition-fade-out");
-					break;
-				case "slide":
-					mediaWrapper.classList.add(currentDirection === "next" ? "transition-slide-next-out" : "transition-slide-prev-out");
-					break;
-				case "zoom":
-					mediaWrapper.classList.add("transition-zoom-out");
-					break;
-				case "slide-up":
-					mediaWrapper.classList.add("transition-slide-up-out");
-					break;
-				case "slide-down":
-					mediaWrapper.classList.add("transition-slide-down-out");
-					break;
-				case "flip":
-					mediaWrapper.classList.add("transition-flip-out");
-					break;
-				case "flip-vertical":
-					mediaWrapper.classList.add("transition-flip-vertical-out");
-					break;
-				case "rotate":
-					mediaWrapper.classList.add("transition-rotate-out");
-					break;
-				case "blur":
-					mediaWrapper.classList.add("transition-blur-out");
-					break;
-				case "squeeze":
-					mediaWrapper.classList.add("transition-squeeze-out");
-					break;
-				default:
-					mediaWrapper.classList.add("transition-fade-out");
-			}
-
-			
-			await new Promise(resolve => setTimeout(resolve, settings.transitionDuration));
-
-			
-			mediaWrapper.empty();
-			if (settings.captionMode === "below") captionContainer.empty();
-
-			
-			if (thumbnailEls.length > 0) {
-				thumbnailEls.forEach((thumb, idx) => {
-					thumb.classList.toggle("active-thumbnail", idx === currentIndex);
-				});
-
-				
 				const activeThumb = thumbnailEls[currentIndex];
 				if (activeThumb && thumbnailContainer) {
-					
+				
 					const containerRect = thumbnailContainer.getBoundingClientRect();
 					const thumbRect = activeThumb.getBoundingClientRect();
 
-					
+				
 					if (settings.thumbnailPosition === "left" || settings.thumbnailPosition === "right") {
-						
+					
 						const scrollTop = activeThumb.offsetTop - (containerRect.height / 2) + (thumbRect.height / 2);
 						thumbnailContainer.scrollTo({
 							top: scrollTop,
 							behavior: 'smooth'
 						});
 					} else {
-						
+					
 						const scrollLeft = activeThumb.offsetLeft - (containerRect.width / 2) + (thumbRect.width / 2);
 						thumbnailContainer.scrollTo({
 							left: scrollLeft,
@@ -973,9 +1869,70 @@ export default class MediaSliderPlugin extends Plugin {
 					}
 				}
 			}
+		};
 
+		let useCompression = this.settings.enableCompression;
+		
+		
+		if (settings.compression !== null && settings.compression !== undefined) {
 			
-			const currentEntry = files[currentIndex];
+			if (settings.compression === "off" || settings.compression === false) {
+				useCompression = false;
+			} else {
+				useCompression = true;
+			}
+		}
+
+		
+		const quality = typeof settings.compression === 'number'
+			? settings.compression
+			: this.settings.compressionQuality;
+
+		// Display-ready images of the slides around the current one. Neighbours are loaded ahead of
+		// time, and images that fall out of range are dropped, so a long slider holds only a few.
+		// Compressed images are kept a while longer, so stepping back to one does not compress it again.
+		const slideImages = new SlidePreloader();
+		const compressedImages = new CompressedImageCache();
+		const compressionOptions = (): CompressionOptions => {
+			let size = settings.compressionSize === "fit" ? DEFAULT_COMPRESSION_SIZE : settings.compressionSize;
+			if (settings.compressionSize === "fit" && sliderContent.clientWidth > 0 && sliderContent.clientHeight > 0) {
+				// Rounded up to whole hundreds of pixels, so small resizes reuse the compressed images.
+				const toPixels = (cssPixels: number) => Math.ceil(cssPixels * (window.devicePixelRatio || 1) / 100) * 100;
+				size = { width: toPixels(sliderContent.clientWidth), height: toPixels(sliderContent.clientHeight) };
+			}
+			return { maxWidth: size.width, maxHeight: size.height, quality, format: settings.compressionFormat };
+		};
+		const loadSlideImage = (fileName: string, filePath: string): Promise<string> => {
+			if (useCompression && !/\.(gif|svg)$/i.test(fileName) && !/\.(gif|svg)$/i.test(filePath)) {
+				const file = this.resolveSlideFile(fileName, ctx.sourcePath);
+				const version = file ? `${file.path}|${file.stat.mtime}` : filePath;
+				const options = compressionOptions();
+				return compressedImages.get(`${version}|${quality}|${options.format}|${options.maxWidth}x${options.maxHeight}`, () =>
+					this.compressSlideImage(file, filePath, options));
+			}
+			return slideImages.get(filePath, async () => {
+				// Shown as is; decoding it now leaves it in the browser's cache.
+				const img = new Image();
+				img.src = filePath;
+				await img.decode().catch(() => undefined);
+				return filePath;
+			});
+		};
+
+		/**
+		 * Draws one slide.
+		 * @param target - Element the media goes into.
+		 * @param index - The slide.
+		 * @param active - Whether it is the current slide, which alone autoplays, drives the
+		 * slideshow and gets the zoom controls and visualizer.
+		 * @param captionTarget - Where a `captionMode: below` caption goes.
+		 */
+		const renderSlide = async (target: HTMLElement, index: number, active: boolean, captionTarget: HTMLElement) => {
+			const addZoom = (img: HTMLImageElement) => {
+				if (active) this.addZoomPanSupport(img, sliderContainer);
+			};
+			const render = slideRender;
+			const currentEntry = files[index];
 			console.log("Current entry:", currentEntry);
 			
 			
@@ -1000,6 +1957,9 @@ export default class MediaSliderPlugin extends Plugin {
 						const img2Path = this.getMediaSource(file2.path);
 						
 						console.log("Image paths:", img1Path, img2Path);
+						const [caption1, caption2] = await Promise.all([file1, file2].map(file =>
+							file.caption ? this.resolveCaption(file.caption, file.path, ctx.sourcePath) : Promise.resolve(null)));
+						if (render !== slideRender) return;
 						
 						
 						if (settings.compareMode?.enabled) {
@@ -1016,11 +1976,11 @@ export default class MediaSliderPlugin extends Plugin {
 							
 							
 							const compareInstance = new CompareMode(
-								mediaWrapper,
+								target,
 								img1Path,
 								img2Path,
-								file1.caption,
-								file2.caption,
+								caption1,
+								caption2,
 								compareOptions
 							);
 							
@@ -1032,38 +1992,38 @@ export default class MediaSliderPlugin extends Plugin {
 						} else {
 							
 							
-							const img1 = mediaWrapper.createEl("img", { attr: { src: img1Path } });
+							const img1 = target.createEl("img", { attr: { src: img1Path } });
 							img1.classList.add("slider-media");
-							this.addZoomPanSupport(img1, sliderContainer);
+							addZoom(img1);
 							
-							if (file1.caption) {
+							if (caption1) {
 								if (settings.captionMode === "overlay") {
-									const capEl = mediaWrapper.createEl("div", { text: file1.caption });
+									const capEl = target.createEl("div", { text: caption1 });
 									capEl.classList.add("slider-caption-overlay");
 								} else {
-									const capEl = captionContainer.createEl("div", { text: file1.caption });
+									const capEl = captionTarget.createEl("div", { text: caption1 });
 									capEl.classList.add("slider-caption");
 								}
 							}
 
 							
-							const img2 = mediaWrapper.createEl("img", { attr: { src: img2Path } });
+							const img2 = target.createEl("img", { attr: { src: img2Path } });
 							img2.classList.add("slider-media");
-							this.addZoomPanSupport(img2, sliderContainer);
+							addZoom(img2);
 							
-							if (file2.caption) {
+							if (caption2) {
 								if (settings.captionMode === "overlay") {
-									const capEl = mediaWrapper.createEl("div", { text: file2.caption });
+									const capEl = target.createEl("div", { text: caption2 });
 									capEl.classList.add("slider-caption-overlay");
 								} else {
-									const capEl = captionContainer.createEl("div", { text: file2.caption });
+									const capEl = captionTarget.createEl("div", { text: caption2 });
 									capEl.classList.add("slider-caption");
 								}
 							}
 						}
 					} catch (error) {
 						console.error("Error rendering comparison:", error);
-						mediaWrapper.createEl("div", { text: `Error rendering comparison: ${error.message || "Unknown error"}` });
+						target.createEl("div", { text: `Error rendering comparison: ${error.message || "Unknown error"}` });
 					}
 				} else {
 					
@@ -1072,12 +2032,29 @@ export default class MediaSliderPlugin extends Plugin {
 						: `Group ${groupId} not found`;
 					
 					console.error(errorMessage);
-					mediaWrapper.createEl("div", { text: errorMessage });
+					target.createEl("div", { text: errorMessage });
 				}
 			} else {
 				const parts = currentEntry.split("|").map(s => s.trim());
 				let fileName = parts[0];
 				const caption = parts[1];
+				const attributes = slideAttributes[index];
+				const advance = active && (attributes?.advance ?? settings.advanceOnEnd);
+				const onFinished = active && (advance || settings.waitForMedia)
+					? () => {
+						if (slideshow.isRunning) {
+							advanceSlideshow();
+						} else if (advance) {
+							goNext();
+						}
+					}
+					: undefined;
+				// With waitForMedia, playing media holds the slideshow until it pauses or finishes.
+				const holdWhilePlaying = (media: HTMLMediaElement) => {
+					if (!settings.waitForMedia || !active) return;
+					media.addEventListener("playing", () => slideshow.hold("media"));
+					media.addEventListener("pause", () => slideshow.release("media"));
+				};
 				if (!fileName.includes(".")) {
 					const mdFile = this.app.metadataCache.getFirstLinkpathDest(fileName, "");
 					if (mdFile && mdFile.extension === "md") {
@@ -1087,75 +2064,80 @@ export default class MediaSliderPlugin extends Plugin {
 
 				const filePath = this.getMediaSource(fileName);
 
-				
-				let useCompression = this.settings.enableCompression;
-				
-				
-				if (settings.compression !== null && settings.compression !== undefined) {
-					
-					if (settings.compression === "off" || settings.compression === false) {
-						useCompression = false;
-					} else {
-						useCompression = true;
-					}
-				}
-
-				
-				const quality = typeof settings.compression === 'number'
-					? settings.compression
-					: this.settings.compressionQuality;
-
 				const mediaType = await this.detectMediaType(filePath);
 
 				if (mediaType === MediaType.IMAGE) {
 					try {
 						if (/\.gif$/i.test(fileName) || /\.gif$/i.test(filePath)) {
-							const img = mediaWrapper.createEl("img", { attr: { src: filePath } });
+							const img = target.createEl("img", { attr: { src: filePath } });
 							img.classList.add("slider-media", "gif-media");
-							this.addZoomPanSupport(img, sliderContainer);
+							addZoom(img);
 						} else if (/\.svg$/i.test(fileName) || /\.svg$/i.test(filePath)) {
-							const img = mediaWrapper.createEl("img", { attr: { src: filePath } });
+							const img = target.createEl("img", { attr: { src: filePath } });
 							img.classList.add("slider-media");
-							this.addZoomPanSupport(img, sliderContainer);
+							addZoom(img);
 						} else if (!useCompression) {
-							const img = mediaWrapper.createEl("img", { attr: { src: filePath } });
+							const img = target.createEl("img", { attr: { src: filePath } });
 							img.classList.add("slider-media");
-							this.addZoomPanSupport(img, sliderContainer);
+							addZoom(img);
 						} else {
-							const compressedUrl = await compressImage(filePath, 1600, 1200, quality);
-							const img = mediaWrapper.createEl("img", { attr: { src: compressedUrl } });
+							const compressedUrl = await loadSlideImage(fileName, filePath);
+							const img = target.createEl("img", { attr: { src: compressedUrl } });
 							img.classList.add("slider-media");
-							this.addZoomPanSupport(img, sliderContainer);
+							addZoom(img);
 						}
 					} catch (err) {
 						console.error("Error processing image:", err);
-						const img = mediaWrapper.createEl("img", { attr: { src: filePath } });
+						const img = target.createEl("img", { attr: { src: filePath } });
 						img.classList.add("slider-media");
-						this.addZoomPanSupport(img, sliderContainer);
+						addZoom(img);
 					}
 				} else if (mediaType === MediaType.VIDEO) {
-					const video = mediaWrapper.createEl("video", { attr: { src: filePath, controls: "true" } });
-					if (settings.autoplay) video.setAttribute("autoplay", "true");
+					const video = target.createEl("video", { attr: { src: filePath, controls: "true" } });
+					const autoplay = active && (attributes?.autoplay ?? settings.autoplay);
+					if (autoplay) video.setAttribute("autoplay", "true");
 					video.classList.add("slider-media");
+					this.applyPlaybackAttributes(video, attributes, onFinished);
+					holdWhilePlaying(video);
+					if (active) slideAdvancesItself = advance && autoplay;
 
-					if (this.settings.enableVisualizer) {
+					if (this.settings.enableVisualizer && active) {
 						new Visualizer(video, sliderContainer, {
 							color: this.settings.visualizerColor,
 							height: this.settings.visualizerHeight
 						});
 					}
+				} else if (mediaType === MediaType.AUDIO && playlist) {
+					const player = playlist;
+					const slideIndex = index;
+					const card = target.createDiv("slider-media ms-playlist-slide");
+					const playBtn = card.createEl("button", { cls: "ms-playlist-slide-play clickable-icon", attr: { "aria-label": "Play" } });
+					setIcon(playBtn, "play");
+					card.createDiv({ cls: "ms-playlist-slide-title", text: caption || fileName.split("/").pop() || fileName });
+					playBtn.onclick = () => {
+						if (player.current?.slideIndex === slideIndex) {
+							player.togglePlay();
+						} else {
+							player.select(slideIndex, true);
+						}
+					};
+					if (active) player.select(slideIndex, player.isPlaying || !!attributes?.autoplay);
 				} else if (mediaType === MediaType.AUDIO) {
-					const audio = mediaWrapper.createEl("audio", { attr: { src: filePath, controls: "true" } });
+					const audio = target.createEl("audio", { attr: { src: filePath, controls: "true" } });
+					if (active && attributes?.autoplay) audio.setAttribute("autoplay", "true");
 					audio.classList.add("slider-media", "audio-media");
+					this.applyPlaybackAttributes(audio, attributes, onFinished);
+					holdWhilePlaying(audio);
+					if (active) slideAdvancesItself = advance && !!attributes?.autoplay;
 
-					if (this.settings.enableVisualizer) {
+					if (this.settings.enableVisualizer && active) {
 						new Visualizer(audio, sliderContainer, {
 							color: this.settings.visualizerColor,
 							height: this.settings.visualizerHeight
 						});
 					}
 				} else if (mediaType === MediaType.PDF) {
-					const pdfContainer = mediaWrapper.createEl("div", { cls: "pdf-container" });
+					const pdfContainer = target.createEl("div", { cls: "pdf-container" });
 
 					const iframe = pdfContainer.createEl("iframe", {
 						attr: {
@@ -1172,13 +2154,13 @@ export default class MediaSliderPlugin extends Plugin {
 					const abstractFile = this.app.vault.getAbstractFileByPath(fileName);
 					if (abstractFile instanceof TFile) {
 						const content = await this.getMarkdownContent(fileName);
-						mediaWrapper.empty();
-						mediaWrapper.style.display = "block";
-						await MarkdownRenderer.render(this.app, content, mediaWrapper, abstractFile.path, this);
+						target.empty();
+						target.style.display = "block";
+						await MarkdownRenderer.render(this.app, content, target, abstractFile.path, this);
 					}
 				} else if (mediaType === MediaType.YOUTUBE) {
 					const embedUrl = this.getYouTubeEmbedURL(fileName);
-					const iframe = mediaWrapper.createEl("iframe", {
+					const iframe = target.createEl("iframe", {
 						attr: {
 							src: embedUrl,
 							frameborder: "0",
@@ -1190,25 +2172,135 @@ export default class MediaSliderPlugin extends Plugin {
 					});
 					iframe.classList.add("slider-media");
 				} else {
-					const link = mediaWrapper.createEl("a", {
+					const link = target.createEl("a", {
 						text: "Open File",
 						attr: { href: filePath, target: "_blank" }
 					});
 					link.classList.add("slider-media");
 				}
 
-				if (caption) {
+				if (attributes?.fit) {
+					target.querySelectorAll(".slider-media").forEach(media => media.classList.add(`ms-fit-${attributes.fit}`));
+				}
+
+				const captionText = caption ? await this.resolveCaption(caption, fileName, ctx.sourcePath) : "";
+				if (captionText && render === slideRender) {
 					if (settings.captionMode === "overlay") {
-						const capEl = mediaWrapper.createEl("div", { text: caption });
+						const capEl = target.createEl("div", { text: captionText });
 						capEl.classList.add("slider-caption-overlay");
 					} else {
-						const capEl = captionContainer.createEl("div", { text: caption });
+						const capEl = captionTarget.createEl("div", { text: captionText });
 						capEl.classList.add("slider-caption");
 					}
 				}
 			}
+		};
+
+		// Several slides side by side: one cell per slide, plus narrow cells for peeking neighbours.
+		const renderSlideRow = async () => {
+			const slides = visibleSlides(currentIndex, files.length, slideView);
+			const peekColumn = slideView.peek ? settings.peek : "";
+			const columns = `${peekColumn} repeat(${slides.filter(slide => !slide.peek).length}, minmax(0, 1fr)) ${peekColumn}`;
+			mediaWrapper.addClass("ms-multi-slide");
+			mediaWrapper.toggleClass("ms-centered", slideView.centered);
+			// A markdown slide shown in single view sets its own display.
+			mediaWrapper.style.removeProperty("display");
+			mediaWrapper.style.setProperty("--ms-slide-columns", columns.trim());
+			mediaWrapper.style.setProperty("--ms-slide-gap", settings.gap);
+
+			await Promise.all(slides.map(slide => {
+				const cell = mediaWrapper.createDiv("ms-slide-cell");
+				cell.toggleClass("is-peek", slide.peek);
+				if (slide.index === null) {
+					cell.addClass("is-empty");
+					return Promise.resolve();
+				}
+				const index = slide.index;
+				cell.dataset.slideIndex = String(index);
+				cell.toggleClass("is-current", index === currentIndex);
+				if (slide.peek) cell.onclick = () => index < currentIndex ? goPrev() : goNext();
+				return renderSlide(cell.createDiv("ms-slide-cell-media"), index, index === currentIndex, cell);
+			}));
+		};
+
+		const updateMediaDisplay = async () => {
+			
+			Object.values(compareInstances).forEach(instance => {
+				instance.destroy();
+			});
+			
+			
+			Object.keys(compareInstances).forEach(key => {
+				delete compareInstances[key];
+			});
+			
+			
+			mediaWrapper.classList.remove(
+				"transition-fade-in", "transition-slide-next-in", "transition-slide-prev-in", "transition-zoom-in",
+				"transition-slide-up-in", "transition-slide-down-in", "transition-flip-in", "transition-flip-vertical-in",
+				"transition-rotate-in", "transition-blur-in", "transition-squeeze-in",
+				"transition-fade-out", "transition-slide-next-out", "transition-slide-prev-out", "transition-zoom-out",
+				"transition-slide-up-out", "transition-slide-down-out", "transition-flip-out", "transition-flip-vertical-out",
+				"transition-rotate-out", "transition-blur-out", "transition-squeeze-out"
+			);
+
+			
+			switch (settings.transitionEffect) {
+				case "fade":
+					mediaWrapper.classList.add("transition-fade-out");
+					break;
+				case "slide":
+					mediaWrapper.classList.add(currentDirection === "next" ? "transition-slide-next-out" : "transition-slide-prev-out");
+					break;
+				case "zoom":
+					mediaWrapper.classList.add("transition-zoom-out");
+					break;
+				case "slide-up":
+					mediaWrapper.classList.add("transition-slide-up-out");
+					break;
+				case "slide-down":
+					mediaWrapper.classList.add("transition-slide-down-out");
+					break;
+				case "flip":
+					mediaWrapper.classList.add("transition-flip-out");
+					break;
+				case "flip-vertical":
+					mediaWrapper.classList.add("transition-flip-vertical-out");
+					break;
+				case "rotate":
+					mediaWrapper.classList.add("transition-rotate-out");
+					break;
+				case "blur":
+					mediaWrapper.classList.add("transition-blur-out");
+					break;
+				case "squeeze":
+					mediaWrapper.classList.add("transition-squeeze-out");
+					break;
+				default:
+					mediaWrapper.classList.add("transition-fade-out");
+			}
+
+			
+			await new Promise(resolve => setTimeout(resolve, settings.transitionDuration));
+
+			
+			mediaWrapper.empty();
+			slideRender++;
+			slideAdvancesItself = false;
+			slideshow.release("media");
+			if (settings.captionMode === "below") captionContainer.empty();
 
 			
+			syncActiveThumbnail();
+
+			
+			if (slideView.multi) {
+				await renderSlideRow();
+			} else {
+				mediaWrapper.removeClass("ms-multi-slide");
+				await renderSlide(mediaWrapper, currentIndex, true, captionContainer);
+			}
+			
 			void mediaWrapper.offsetWidth;
 
 			
@@ -1265,21 +2357,66 @@ export default class MediaSliderPlugin extends Plugin {
 				const mediaKey = `${sliderId}-${files[currentIndex]}`;
 				updateDrawingOverlay?.(mediaKey);
 			}
+
+			// Each slide is timed on its own so a per-slide `duration` attribute can override the speed.
+			slideshow.restart(slideAdvancesItself ? null : slideAttributes[currentIndex]?.duration ?? settings.slideshowSpeed);
+
+			void preloadAround();
+			void updateInfoPanel();
+		};
+
+		/**
+		 * Loads the images of the previous and next step ahead of time, and drops the loaded images
+		 * of every slide further away.
+		 */
+		const preloadAround = async () => {
+			const starts = [currentIndex, stepSlide(currentIndex, files.length, slideView, 1), stepSlide(currentIndex, files.length, slideView, -1)];
+			const indexes = new Set<number>();
+			for (const start of starts) {
+				const shown = slideView.multi ? visibleSlides(start, files.length, slideView).map(slide => slide.index) : [start];
+				shown.forEach(index => index !== null && indexes.add(index));
+			}
+
+			const keep = new Set<string>();
+			for (const index of Array.from(indexes)) {
+				const entry = files[index];
+				if (!entry || entry.startsWith("__COMPARE_GROUP_")) continue;
+				const [fileName] = entry.split("|").map(part => part.trim());
+				const filePath = this.getMediaSource(fileName);
+				if (await this.detectMediaType(filePath) !== MediaType.IMAGE) continue;
+				keep.add(filePath);
+				loadSlideImage(fileName, filePath).catch(error => console.warn("Failed to preload image:", error));
+			}
+			slideImages.keepOnly(keep);
 		};
 
 		const throttledUpdate = this.throttle(updateMediaDisplay, 100);
 
 		const goPrev = () => {
 			currentDirection = "prev";
-			currentIndex = (currentIndex - 1 + files.length) % files.length;
+			currentIndex = stepSlide(currentIndex, files.length, slideView, -1);
 			throttledUpdate();
 		};
 		const goNext = () => {
 			currentDirection = "next";
-			currentIndex = (currentIndex + 1) % files.length;
+			currentIndex = stepSlide(currentIndex, files.length, slideView, 1);
 			throttledUpdate();
 		};
 
+		// Breakpoints are matched against the slider's own width, so they follow pane resizes too.
+		let resizeObserver: ResizeObserver | null = null;
+		if (typeof settings.slidesPerView === "object") {
+			resizeObserver = new ResizeObserver(() => {
+				const previous = slideView.perView;
+				updateSlideView();
+				if (slideView.perView !== previous) {
+					currentIndex = alignSlide(currentIndex, files.length, slideView);
+					throttledUpdate();
+				}
+			});
+			resizeObserver.observe(sliderContent);
+		}
+
 		
 		const prevBtn = sliderContent.createEl("button", { cls: "slider-btn prev" });
 		const nextBtn = sliderContent.createEl("button", { cls: "slider-btn next" });
@@ -1344,151 +2481,417 @@ export default class MediaSliderPlugin extends Plugin {
 		});
 
 		
-		if (thumbnailContainer) {
-			thumbnailContainer.empty();
-			(async () => {
-				for (let index = 0; index < files.length; index++) {
-					const entry = files[index];
-					
-					if (entry.startsWith('__COMPARE_GROUP_')) {
-						const groupId = entry.replace('__COMPARE_GROUP_', '');
-						const group = compareGroups.get(groupId);
-						
-						if (group && group.files.length > 0) {
-							
-							const thumbEl = thumbnailContainer!.createEl("div", { cls: "thumbnail compare-thumbnail" });
-							
-							
-							thumbEl.classList.add(settings.compareMode.orientation === "horizontal" ? 
-								"compare-horizontal" : "compare-vertical");
-							
-							
-							if (group.files.length >= 2) {
-								const file1 = group.files[0];
-								const file2 = group.files[1];
-								
-								try {
-									const img1Path = this.getMediaSource(file1.path);
-									const img2Path = this.getMediaSource(file2.path);
-									
-									
-									const isImage1 = /\.(png|jpg|jpeg|gif|svg|webp|bmp|avif)$/i.test(file1.path);
-									const isImage2 = /\.(png|jpg|jpeg|gif|svg|webp|bmp|avif)$/i.test(file2.path);
-									
-									if (isImage1 && isImage2) {
-										const thumbContainer = thumbEl.createEl("div", { cls: "compare-thumb-container" });
-	
-										// Create left image (side effect: appends to DOM)
-										void thumbContainer.createEl("img", {
-											attr: { src: img1Path },
-											cls: "compare-thumb-left"
-										});
-	
-										// Create right image (side effect: appends to DOM)
-										void thumbContainer.createEl("img", {
-											attr: { src: img2Path },
-											cls: "compare-thumb-right"
-										});
-	
-										// Create divider (side effect: appends to DOM)
-										void thumbContainer.createEl("div", { cls: "compare-thumb-divider" });
-	
-										// Create compare icon (side effect: appends to DOM)
-										void thumbEl.createEl("div", {
-											text: "⟷",
-											cls: "compare-thumb-icon"
-										});
-									} else {
-										
-										thumbEl.textContent = "COMP";
-										thumbEl.classList.add("thumbnail-placeholder");
-									}
-								} catch (error) {
-									console.error("Error creating compare thumbnail:", error);
-									thumbEl.textContent = "ERR";
-									thumbEl.classList.add("thumbnail-placeholder");
-								}
-							} else {
-								
-								thumbEl.textContent = "CMP";
-								thumbEl.classList.add("thumbnail-placeholder");
-							}
-							
-							
-							if (settings.thumbnailPosition === "left" || settings.thumbnailPosition === "right") {
-								thumbEl.classList.add("vertical-thumb");
-							}
-							
-							
-							thumbEl.onclick = () => {
-								currentIndex = index;
-								throttledUpdate();
-							};
-							
-							thumbnailEls.push(thumbEl);
-						}
+
+		const openSlideMenu = (evt: MouseEvent, index: number) => {
+			const entry = files[index];
+			const origin = origins[index];
+			if (!entry || !origin) return;
+			const groupFiles = entry.startsWith("__COMPARE_GROUP_")
+				? compareGroups.get(entry.slice("__COMPARE_GROUP_".length))?.files.map(file => file.path) ?? []
+				: [entry.split("|")[0].trim()];
+
+			const menu = new Menu();
+			let hasActions = false;
+			for (const path of groupFiles) {
+				const file = this.resolveSlideFile(path, ctx.sourcePath);
+				if (!file) continue;
+				hasActions = true;
+				addSlideFileActions(this.app, menu, file, {
+					sourcePath: ctx.sourcePath,
+					heading: groupFiles.length > 1 ? file.name : undefined,
+					onRemove: () => void this.removeSlide(container, ctx, origin, origin.folderFile ?? path)
+				});
+			}
+			if (!hasActions) return;
+			evt.preventDefault();
+			evt.stopPropagation();
+			menu.showAtMouseEvent(evt);
+		};
+		mediaWrapper.addEventListener("contextmenu", (evt: MouseEvent) => {
+			const cell = evt.target instanceof Element ? evt.target.closest<HTMLElement>(".ms-slide-cell") : null;
+			openSlideMenu(evt, cell?.dataset.slideIndex !== undefined ? Number(cell.dataset.slideIndex) : currentIndex);
+		});
+
+		// Thumbnails can be dragged to reorder the slides; the new order is written back to the block.
+		let draggedThumbIndex: number | null = null;
+		const isVerticalStrip = settings.thumbnailPosition === "left" || settings.thumbnailPosition === "right";
+		const makeThumbnailDraggable = (thumbEl: HTMLElement, index: number) => {
+			const clearDropIndicator = () => thumbEl.removeClass("ms-thumb-drop-before", "ms-thumb-drop-after");
+			thumbEl.draggable = true;
+			thumbEl.addEventListener("dragstart", (evt: DragEvent) => {
+				draggedThumbIndex = index;
+				thumbEl.addClass("ms-thumb-dragging");
+				if (evt.dataTransfer) evt.dataTransfer.effectAllowed = "move";
+			});
+			thumbEl.addEventListener("dragend", () => {
+				draggedThumbIndex = null;
+				thumbEl.removeClass("ms-thumb-dragging");
+			});
+			thumbEl.addEventListener("dragover", (evt: DragEvent) => {
+				if (draggedThumbIndex === null || draggedThumbIndex === index) return;
+				evt.preventDefault();
+				const rect = thumbEl.getBoundingClientRect();
+				const after = isVerticalStrip
+					? evt.clientY > rect.top + rect.height / 2
+					: evt.clientX > rect.left + rect.width / 2;
+				thumbEl.toggleClass("ms-thumb-drop-before", !after);
+				thumbEl.toggleClass("ms-thumb-drop-after", after);
+			});
+			thumbEl.addEventListener("dragleave", clearDropIndicator);
+			thumbEl.addEventListener("drop", (evt: DragEvent) => {
+				const from = draggedThumbIndex;
+				const after = thumbEl.hasClass("ms-thumb-drop-after");
+				clearDropIndicator();
+				if (from === null) return;
+				evt.preventDefault();
+				evt.stopPropagation();
+				let to = index + (after ? 1 : 0);
+				if (from < to) to--;
+				if (to !== from) {
+					void this.saveSlideOrder(container, ctx, origins, from, to);
+				}
+			});
+		};
+		// Thumbnails start as empty slots and are filled only while they are near the visible part
+		// of the strip, so a slider over thousands of files neither blocks nor holds every image.
+		let thumbnailLoader: LazyLoader | null = null;
+		// The component of each rendered note snippet, by the thumbnail or tile holding it.
+		const notePreviews = new Map<HTMLElement, Component>();
+		const unloadNotePreview = (parentEl: HTMLElement) => {
+			notePreviews.get(parentEl)?.unload();
+			notePreviews.delete(parentEl);
+		};
+
+		/**
+		 * Adds the generated preview of a video, PDF, audio or markdown slide to a thumbnail or tile.
+		 * @returns The added image or video, the note snippet for markdown, or null when there is no
+		 * preview and the caller shows a placeholder instead.
+		 */
+		const addSlidePreview = async (
+			parentEl: HTMLElement,
+			index: number,
+			fileName: string,
+			filePath: string,
+			mediaType: MediaType,
+			isCurrent: () => boolean
+		): Promise<HTMLElement | null> => {
+			if (mediaType === MediaType.MARKDOWN) {
+				if (!this.settings.generatePreviews) return null;
+				const noteEl = createDiv("ms-note-preview");
+				const component = new Component();
+				component.load();
+				const rendered = await this.renderNotePreview(noteEl, fileName, component).catch(() => false);
+				if (!rendered || !isCurrent()) {
+					component.unload();
+					return null;
+				}
+				unloadNotePreview(parentEl);
+				notePreviews.set(parentEl, component);
+				parentEl.appendChild(noteEl);
+				return noteEl;
+			}
+			const offset = slideAttributes[index]?.start ?? settings.thumbnailOffset;
+			const preview = await this.getSlideThumbnail(fileName, filePath, mediaType, offset, ctx.sourcePath);
+			if (!isCurrent()) return null;
+			if (preview) {
+				return parentEl.createEl("img", { attr: { src: preview, decoding: "async" }, cls: "ms-generated-preview" });
+			}
+			if (mediaType === MediaType.VIDEO) {
+				// The browser can still show the frame when it cannot be captured, e.g. a remote video without CORS.
+				const video = parentEl.createEl("video", {
+					attr: { src: `${filePath}#t=${offset}`, preload: "metadata" },
+					cls: "ms-clip-thumbnail"
+				});
+				video.muted = true;
+				return video;
+			}
+			return null;
+		};
+
+		const fillThumbnail = async (thumbEl: HTMLElement, index: number, isCurrent: () => boolean) => {
+			const entry = files[index];
+			if (!entry) return;
+
+			if (entry.startsWith('__COMPARE_GROUP_')) {
+				const group = compareGroups.get(entry.replace('__COMPARE_GROUP_', ''));
+				thumbEl.classList.add("compare-thumbnail", settings.compareMode.orientation === "horizontal" ?
+					"compare-horizontal" : "compare-vertical");
+
+				if (!group || group.files.length < 2) {
+					thumbEl.textContent = "CMP";
+					thumbEl.classList.add("thumbnail-placeholder");
+					return;
+				}
+				const [file1, file2] = group.files;
+				try {
+					const img1Path = this.getMediaSource(file1.path);
+					const img2Path = this.getMediaSource(file2.path);
+
+					const types = await Promise.all([img1Path, img2Path].map(path => this.detectMediaType(path)));
+					if (!isCurrent()) return;
+
+					const showPlaceholder = () => {
+						if (!isCurrent()) return;
+						thumbEl.empty();
+						thumbEl.textContent = "COMP";
+						thumbEl.classList.add("thumbnail-placeholder");
+					};
+					// Files of an unknown type are tried as images too, so any format the browser
+					// decodes gets a thumbnail; the placeholder shows when one fails to load.
+					if (types.every(type => type === MediaType.IMAGE || type === MediaType.UNKNOWN)) {
+						const thumbContainer = thumbEl.createEl("div", { cls: "compare-thumb-container" });
+						const img1 = thumbContainer.createEl("img", { attr: { src: img1Path, decoding: "async" }, cls: "compare-thumb-left" });
+						const img2 = thumbContainer.createEl("img", { attr: { src: img2Path, decoding: "async" }, cls: "compare-thumb-right" });
+						[img1, img2].forEach(img => img.addEventListener("error", showPlaceholder, { once: true }));
+						thumbContainer.createEl("div", { cls: "compare-thumb-divider" });
+						thumbEl.createEl("div", { text: "⟷", cls: "compare-thumb-icon" });
 					} else {
-						const [fileName] = entry.split("|").map(s => s.trim());
-                        const filePath = this.getMediaSource(fileName);
-                        const mediaType = await this.detectMediaType(filePath);
-
-                        let thumbEl: HTMLElement;
-                        if (mediaType === MediaType.YOUTUBE) {
-                            const thumbUrl = this.getYouTubeThumbnail(fileName);
-                            thumbEl = thumbnailContainer!.createEl("img", { attr: { src: thumbUrl }, cls: "thumbnail" });
-                        } else if (mediaType === MediaType.IMAGE) {
-                            thumbEl = thumbnailContainer!.createEl("img", {
-                                attr: { src: filePath },
-                                cls: "thumbnail"
-                            });
-                        } else {
-                            const ext = mediaType !== MediaType.UNKNOWN
-								? mediaType.toUpperCase()
-								: fileName.split('.').pop()?.toUpperCase() || "FILE";
-                            thumbEl = thumbnailContainer!.createEl("div", { text: ext });
-                            thumbEl.classList.add("thumbnail-placeholder");
-                        }
-
-                        if (settings.thumbnailPosition === "left" || settings.thumbnailPosition === "right") {
-                            thumbEl.classList.add("vertical-thumb");
-                        }
-
-                        thumbEl.tabIndex = 0;
-
-                        thumbEl.onclick = () => {
-                            currentIndex = index;
-                            throttledUpdate();
-                        };
-
-                        thumbnailEls.push(thumbEl);
+						showPlaceholder();
 					}
+				} catch (error) {
+					console.error("Error creating compare thumbnail:", error);
+					thumbEl.textContent = "ERR";
+					thumbEl.classList.add("thumbnail-placeholder");
 				}
-			})();
+				return;
+			}
+
+			const [fileName] = entry.split("|").map(s => s.trim());
+			const filePath = this.getMediaSource(fileName);
+			const mediaType = await this.detectMediaType(filePath);
+			if (!isCurrent()) return;
+
+			if (mediaType === MediaType.YOUTUBE) {
+				thumbEl.createEl("img", { attr: { src: this.getYouTubeThumbnail(fileName), decoding: "async" } });
+			} else if (mediaType === MediaType.IMAGE) {
+				const thumbnail = await this.getSlideThumbnail(fileName, filePath, mediaType, 0, ctx.sourcePath);
+				if (!isCurrent()) return;
+				thumbEl.createEl("img", { attr: { src: thumbnail ?? filePath, decoding: "async" } });
+			} else {
+				const preview = await addSlidePreview(thumbEl, index, fileName, filePath, mediaType, isCurrent);
+				if (!isCurrent()) return;
+				if (preview) {
+					if (mediaType === MediaType.MARKDOWN) thumbEl.classList.add("ms-thumb-note");
+				} else {
+					thumbEl.textContent = mediaType !== MediaType.UNKNOWN
+						? mediaType.toUpperCase()
+						: fileName.split('.').pop()?.toUpperCase() || "FILE";
+					thumbEl.classList.add("thumbnail-placeholder");
+				}
+			}
+		};
+
+		const unloadThumbnail = (thumbEl: HTMLElement) => {
+			unloadNotePreview(thumbEl);
+			thumbEl.empty();
+			thumbEl.classList.remove("thumbnail-placeholder", "ms-thumb-note", "compare-thumbnail", "compare-horizontal", "compare-vertical");
+		};
+
+		// Rebuilt when a live source changes the file list.
+		const buildThumbnails = () => {
+			const strip = thumbnailContainer;
+			if (!strip) return;
+			thumbnailLoader?.disconnect();
+			const loader = new LazyLoader(strip, {
+				load: (thumbEl, isCurrent) => fillThumbnail(thumbEl, Number(thumbEl.dataset.slideIndex), isCurrent),
+				unload: unloadThumbnail
+			});
+			thumbnailLoader = loader;
+			thumbnailEls.forEach(unloadNotePreview);
+			strip.empty();
+			thumbnailEls.length = 0;
+
+			files.forEach((_, index) => {
+				const thumbEl = strip.createDiv("thumbnail ms-thumb-slot");
+				thumbEl.dataset.slideIndex = String(index);
+				if (settings.thumbnailPosition === "left" || settings.thumbnailPosition === "right") {
+					thumbEl.classList.add("vertical-thumb");
+				}
+				thumbEl.tabIndex = 0;
+				thumbEl.onclick = () => {
+					currentIndex = alignSlide(index, files.length, slideView);
+					throttledUpdate();
+				};
+				makeThumbnailDraggable(thumbEl, index);
+				thumbEl.addEventListener("contextmenu", (evt: MouseEvent) => openSlideMenu(evt, index));
+				thumbnailEls.push(thumbEl);
+				loader.observe(thumbEl);
+			});
+			syncActiveThumbnail();
+		};
 
+		if (thumbnailContainer) {
+			buildThumbnails();
 			thumbnailContainer.tabIndex = 0;
 		}
 
+		let lightbox: Lightbox | null = null;
+		const openLightbox = (index: number) => {
+			if (!lightbox) return;
+			currentIndex = alignSlide(index, files.length, slideView);
+			lightbox.show();
+			slideshow.release("lightbox");
+			throttledUpdate();
+			this.activeSliderContent = sliderContent;
+			sliderContent.focus();
+		};
+
+		// Tiles are filled while they are near the screen, like the thumbnail strip. An emptied tile
+		// keeps its aspect ratio, so the layout does not jump.
+		let galleryLoader: LazyLoader | null = null;
+
+		const fillTile = async (tileEl: HTMLElement, index: number, isCurrent: () => boolean) => {
+			const entry = files[index];
+			if (!entry) return;
+
+			if (entry.startsWith("__COMPARE_GROUP_")) {
+				const group = compareGroups.get(entry.slice("__COMPARE_GROUP_".length));
+				const firstSrc = group?.files[0] ? this.getMediaSource(group.files[0].path) : null;
+				const firstType = firstSrc ? await this.detectMediaType(firstSrc) : MediaType.UNKNOWN;
+				if (!isCurrent()) return;
+				const addPlaceholder = () => tileEl.createDiv({ cls: "ms-gallery-placeholder", text: "COMPARE" });
+				if (firstSrc && (firstType === MediaType.IMAGE || firstType === MediaType.UNKNOWN)) {
+					const img = tileEl.createEl("img", { attr: { src: firstSrc, decoding: "async" } });
+					img.addEventListener("error", () => {
+						if (!isCurrent()) return;
+						img.replaceWith(addPlaceholder());
+					}, { once: true });
+					fitTileToMedia(tileEl, img);
+				} else {
+					addPlaceholder();
+				}
+				tileEl.createDiv({ cls: "ms-gallery-badge", text: "⟷" });
+				return;
+			}
+
+			const [fileName, caption] = entry.split("|").map(part => part.trim());
+			const filePath = this.getMediaSource(fileName);
+			const mediaType = await this.detectMediaType(filePath);
+			if (!isCurrent()) return;
+
+			if (mediaType === MediaType.IMAGE || mediaType === MediaType.YOUTUBE) {
+				const src = mediaType === MediaType.YOUTUBE ? this.getYouTubeThumbnail(fileName) : filePath;
+				const img = tileEl.createEl("img", { attr: { src, decoding: "async" } });
+				fitTileToMedia(tileEl, img);
+			} else {
+				const preview = await addSlidePreview(tileEl, index, fileName, filePath, mediaType, isCurrent);
+				if (!isCurrent()) return;
+				if (preview instanceof HTMLImageElement || preview instanceof HTMLVideoElement) {
+					fitTileToMedia(tileEl, preview);
+				} else if (!preview) {
+					const placeholder = tileEl.createDiv("ms-gallery-placeholder");
+					placeholder.createDiv({
+						text: mediaType !== MediaType.UNKNOWN ? mediaType : fileName.split(".").pop()?.toUpperCase() || "FILE"
+					});
+					placeholder.createDiv({ cls: "ms-gallery-placeholder-name", text: fileName.split("/").pop() ?? fileName });
+				}
+				if (mediaType === MediaType.VIDEO) setIcon(tileEl.createDiv("ms-gallery-badge"), "play");
+			}
+			const captionText = caption ? await this.resolveCaption(caption, fileName, ctx.sourcePath) : "";
+			if (captionText && isCurrent()) tileEl.createDiv({ cls: "ms-gallery-caption", text: captionText });
+		};
+
+		const buildGallery = () => {
+			if (!galleryEl) return;
+			galleryLoader?.disconnect();
+			const loader = new LazyLoader(null, {
+				load: (tileEl, isCurrent) => fillTile(tileEl, Number(tileEl.dataset.slideIndex), isCurrent),
+				unload: tileEl => {
+					unloadNotePreview(tileEl);
+					tileEl.empty();
+				}
+			});
+			galleryLoader = loader;
+			Array.from(galleryEl.children).forEach(tileEl => unloadNotePreview(tileEl as HTMLElement));
+			galleryEl.empty();
+
+			files.forEach((_, index) => {
+				const tileEl = galleryEl.createDiv("ms-gallery-tile");
+				tileEl.dataset.slideIndex = String(index);
+				tileEl.tabIndex = 0;
+				tileEl.onclick = () => openLightbox(index);
+				tileEl.addEventListener("keydown", (evt: KeyboardEvent) => {
+					if (evt.key === "Enter" || evt.key === " ") {
+						evt.preventDefault();
+						openLightbox(index);
+					}
+				});
+				makeThumbnailDraggable(tileEl, index);
+				tileEl.addEventListener("contextmenu", (evt: MouseEvent) => openSlideMenu(evt, index));
+				loader.observe(tileEl);
+			});
+		};
+
+		if (galleryEl) {
+			lightbox = new Lightbox(sliderWrapper, () => {
+				// Closing stops whatever the slide was playing; the playlist player keeps going.
+				slideshow.hold("lightbox");
+				mediaWrapper.empty();
+				slideRender++;
+				captionContainer.empty();
+				if (this.activeSliderContent === sliderContent) this.activeSliderContent = null;
+			});
+			slideshow.hold("lightbox");
+			const lightboxChild = new MarkdownRenderChild(container);
+			lightboxChild.register(() => lightbox?.close());
+			ctx.addChild(lightboxChild);
+			buildGallery();
+			this.registerMediaDrop(galleryEl, container, settings, ctx);
+		}
+
 		
-		let slideshowInterval: number | NodeJS.Timeout | null = null;
 		let isNoteActive = true;
 
 		
 		const startSlideshow = () => {
 			if (settings.slideshowSpeed > 0 && isNoteActive) {
-				slideshowInterval = setInterval(goNext, settings.slideshowSpeed * 1000);
+				slideshow.start();
 				// console.log(`[Media-Slider] Started slideshow for ${ctx.sourcePath}`);
 			}
 		};
 
 		
 		const stopSlideshow = () => {
-			if (slideshowInterval) {
-				clearInterval(slideshowInterval);
-				slideshowInterval = null;
-				// console.log(`[Media-Slider] Stopped slideshow for ${ctx.sourcePath}`);
-			}
+			slideshow.stop();
+			// console.log(`[Media-Slider] Stopped slideshow for ${ctx.sourcePath}`);
 		};
 
+		// Play/pause button and progress bar. Pausing by hand is a hold, so switching notes and
+		// coming back does not restart a slideshow the user paused.
+		if (settings.slideshowSpeed > 0) {
+			progressFill = sliderContainer.createDiv("ms-slideshow-progress").createDiv("ms-slideshow-progress-fill");
+			slideshowToggle = sliderContainer.createEl("button", { cls: "slider-btn ms-slideshow-toggle" });
+			slideshowToggle.onclick = evt => {
+				evt.stopPropagation();
+				if (!slideshow.isRunning) {
+					slideshow.release("user");
+					// A slideshow that stopped on the last slide starts over.
+					if (settings.stopAtEnd && isAtLastStep(currentIndex, files.length, slideView)) {
+						goNext();
+					}
+					startSlideshow();
+				} else if (slideshow.isHeld("user")) {
+					slideshow.release("user");
+				} else {
+					slideshow.hold("user");
+				}
+				updateSlideshowToggle();
+			};
+			updateSlideshowToggle();
+
+			// A lightbox covers the whole window, so it would always count as hovered.
+			if (settings.pauseOnHover && !galleryEl) {
+				sliderWrapper.addEventListener("mouseenter", () => slideshow.hold("hover"));
+				sliderWrapper.addEventListener("mouseleave", () => slideshow.release("hover"));
+				sliderWrapper.addEventListener("focusin", () => slideshow.hold("focus"));
+				sliderWrapper.addEventListener("focusout", (evt: FocusEvent) => {
+					if (!(evt.relatedTarget instanceof Node) || !sliderWrapper.contains(evt.relatedTarget)) {
+						slideshow.release("focus");
+					}
+				});
+			}
+		}
+
 		
 		const checkNoteActive = () => {
 			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
@@ -1520,15 +2923,35 @@ export default class MediaSliderPlugin extends Plugin {
 			if (isNoteActive) {
 				startSlideshow();
 			}
+			updateSlideshowToggle();
 		}
 
+		// Tied to the code block rather than the plugin, so a slider is cleaned up, and its object
+		// URLs revoked and workspace handlers dropped, as soon as its note is closed or re-rendered.
+		const sliderChild = new MarkdownRenderChild(container);
+		sliderChild.register(() => {
+			
+			stopSlideshow();
+			resizeObserver?.disconnect();
+			thumbnailLoader?.disconnect();
+			galleryLoader?.disconnect();
+			notePreviews.forEach(component => component.unload());
+			notePreviews.clear();
+			slideImages.clear();
+			compressedImages.clear();
+			
+			
+			Object.values(compareInstances).forEach(instance => {
+				instance.destroy();
+			});
+		});
 		
-		this.registerEvent(
+		sliderChild.registerEvent(
 			this.app.workspace.on('active-leaf-change', checkNoteActive)
 		);
 
 		
-		this.registerEvent(
+		sliderChild.registerEvent(
 			this.app.workspace.on('layout-change', () => {
 				
 				const noteStillExists = this.app.workspace.getLeavesOfType("markdown").some(leaf => {
@@ -1542,31 +2965,24 @@ export default class MediaSliderPlugin extends Plugin {
 				if (!noteStillExists && isNoteActive) {
 					isNoteActive = false;
 					stopSlideshow();
+					playlist?.stop();
 				}
 			})
 		);
 
-
-
-		
-		this.register(() => {
-			
-			stopSlideshow();
-			
-			
-			Object.values(compareInstances).forEach(instance => {
-				instance.destroy();
-			});
-		});
+		ctx.addChild(sliderChild);
 
 		
-		throttledUpdate();
+		// A gallery's slide is only drawn once its lightbox opens.
+		if (!lightbox) throttledUpdate();
 
 		
 		sliderWrapper.tabIndex = 0;
 
 		container.appendChild(sliderWrapper);
 
+		this.registerMediaDrop(sliderWrapper, container, settings, ctx);
+
 		
 		if (!this.keydownHandlerInitialized) {
 			document.addEventListener("keydown", (evt: KeyboardEvent) => {
@@ -1609,6 +3025,366 @@ export default class MediaSliderPlugin extends Plugin {
 
 			this.keydownHandlerInitialized = true;
 		}
+
+		return {
+			setEntries: (entries: SliderEntries) => {
+				const currentEntry = files[currentIndex];
+				files.splice(0, files.length, ...entries.files);
+				origins.splice(0, origins.length, ...entries.origins);
+				slideAttributes.splice(0, slideAttributes.length, ...entries.slideAttributes);
+				if (playlist) void this.loadPlaylistTracks(playlist, files, slideAttributes);
+				compareGroups.clear();
+				entries.compareGroups.forEach((group, groupId) => compareGroups.set(groupId, group));
+
+				const keptIndex = files.indexOf(currentEntry);
+				currentIndex = alignSlide(keptIndex !== -1 ? keptIndex : Math.min(currentIndex, files.length - 1), files.length, slideView);
+				buildThumbnails();
+				buildGallery();
+				// Neighbours in view may have changed even when the current slide stayed.
+				if ((currentIndex !== keptIndex || slideView.multi) && (!lightbox || lightbox.isOpen)) {
+					void updateMediaDisplay();
+				}
+			},
+			refreshFile: (path: string) => {
+				buildThumbnails();
+				buildGallery();
+				if (lightbox && !lightbox.isOpen) return;
+				const showsFile = (name: string) =>
+					[name, `${name}.md`].some(candidate => path === candidate || path.endsWith(`/${candidate}`));
+				const shownIndexes = slideView.multi
+					? visibleSlides(currentIndex, files.length, slideView).map(slide => slide.index)
+					: [currentIndex];
+				const showsPath = shownIndexes.some(index => {
+					if (index === null) return false;
+					const [shownPath] = files[index].split("|").map(part => part.trim());
+					const compareGroup = shownPath.startsWith("__COMPARE_GROUP_")
+						? compareGroups.get(shownPath.slice("__COMPARE_GROUP_".length))
+						: undefined;
+					return showsFile(shownPath) || !!compareGroup?.files.some(file => showsFile(file.path));
+				});
+				if (showsPath) {
+					void updateMediaDisplay();
+				}
+			}
+		};
+	}
+
+	/**
+	 * Rewrites the body of the media-slider block a slider was rendered from. The block is found
+	 * through the section info of its element and checked to still be a media-slider fence, so an
+	 * edit made from a stale render is dropped rather than applied to the wrong lines.
+	 * @param el - The element the code block processor rendered into.
+	 * @param ctx - Its post-processor context.
+	 * @param edit - Gets the lines between the fences and returns the new lines, or null to leave them.
+	 * @returns Whether the block was found.
+	 */
+	private async editSliderBlock(
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		edit: (body: string[]) => string[] | null
+	): Promise<boolean> {
+		const section = ctx.getSectionInfo(el);
+		const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		if (!section || !(file instanceof TFile)) return false;
+
+		let found = false;
+		await this.app.vault.process(file, content => {
+			const lines = content.split("\n");
+			const opening = lines[section.lineStart] ?? "";
+			const closing = (lines[section.lineEnd] ?? "").trim();
+			if (!/^\s*(`{3,}|~{3,})\s*media-slider\s*$/.test(opening) || !/^(`{3,}|~{3,})$/.test(closing)) {
+				return content;
+			}
+			found = true;
+			const body = edit(lines.slice(section.lineStart + 1, section.lineEnd));
+			if (!body) return content;
+			lines.splice(section.lineStart + 1, section.lineEnd - section.lineStart - 1, ...body);
+			return lines.join("\n");
+		});
+		return found;
+	}
+
+	/**
+	 * Returns the playlist player of a slider, creating it on first use. The player outlives the
+	 * slider's element, which is unloaded when it scrolls out of view or re-renders, so playback
+	 * carries on until the note is closed.
+	 * @param key - Identifies the slider across re-renders.
+	 * @param sourcePath - Path of the note holding the slider.
+	 * @param settings - The slider's settings, for shuffle and repeat.
+	 */
+	private getPlaylist(key: string, sourcePath: string, settings: SliderSettings): AudioPlaylist {
+		const existing = this.playlists.get(key);
+		if (existing) {
+			existing.player.setOptions({ shuffle: settings.shuffle, repeat: settings.repeat });
+			return existing.player;
+		}
+		const player = new AudioPlaylist({ shuffle: settings.shuffle, repeat: settings.repeat });
+		this.playlists.set(key, { player, sourcePath });
+		return player;
+	}
+
+	/** Stops and forgets the playlist players of notes no tab shows anymore. */
+	private releaseClosedPlaylists(): void {
+		const openNotes = new Set(this.app.workspace.getLeavesOfType("markdown")
+			.map(leaf => leaf.view instanceof MarkdownView ? leaf.view.file?.path : undefined));
+		for (const [key, { player, sourcePath }] of Array.from(this.playlists)) {
+			if (openNotes.has(sourcePath)) continue;
+			player.destroy();
+			this.playlists.delete(key);
+		}
+	}
+
+	/**
+	 * Gives a playlist the audio slides of a slider, in slide order.
+	 */
+	private async loadPlaylistTracks(
+		playlist: AudioPlaylist,
+		files: string[],
+		slideAttributes: (SlideAttributes | undefined)[]
+	): Promise<void> {
+		const tracks: PlaylistTrack[] = [];
+		for (let slideIndex = 0; slideIndex < files.length; slideIndex++) {
+			const entry = files[slideIndex];
+			if (entry.startsWith("__COMPARE_GROUP_")) continue;
+			const [fileName, caption] = entry.split("|").map(part => part.trim());
+			const src = this.getMediaSource(fileName);
+			if (await this.detectMediaType(src) !== MediaType.AUDIO) continue;
+			const attributes = slideAttributes[slideIndex];
+			tracks.push({
+				slideIndex,
+				title: caption || (fileName.split("/").pop() ?? fileName).replace(/\.[^.]+$/, ""),
+				src,
+				start: attributes?.start,
+				end: attributes?.end
+			});
+		}
+		playlist.setTracks(tracks);
+	}
+
+	/**
+	 * Finds the vault file a slide entry refers to, by link, by path, or by file name.
+	 * @returns The file, or null for URLs and missing files.
+	 */
+	private resolveSlideFile(path: string, sourcePath: string): TFile | null {
+		if (/^https?:\/\//.test(path)) return null;
+		const linked = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(path), sourcePath);
+		if (linked) return linked;
+		const byPath = this.app.vault.getAbstractFileByPath(path);
+		if (byPath instanceof TFile) return byPath;
+		return this.app.vault.getFiles().find(file => file.name.toLowerCase() === path.toLowerCase()) ?? null;
+	}
+
+	/**
+	 * Takes a slide out of the slider's code block.
+	 * @param el - The element the code block processor rendered into.
+	 * @param ctx - Its post-processor context.
+	 * @param origin - Where the slide came from.
+	 * @param path - The slide's path as written in the block, or its vault path for expanded slides.
+	 */
+	private async removeSlide(
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		origin: SlideOrigin,
+		path: string
+	): Promise<void> {
+		const found = await this.editSliderBlock(el, ctx, body => removeSlideFromBody(body, origin, path))
+			.catch(error => {
+				console.error("Failed to remove slide:", error);
+				return false;
+			});
+		if (!found) {
+			new Notice("Could not find this slider's code block to remove the slide from.");
+		}
+	}
+
+	/**
+	 * Moves a slide and writes the new order back to the slider's code block.
+	 * @param el - The element the code block processor rendered into.
+	 * @param ctx - Its post-processor context.
+	 * @param origins - The origin of each slide as currently shown.
+	 * @param from - Index of the moved slide.
+	 * @param to - Its new index.
+	 */
+	private async saveSlideOrder(
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		origins: SlideOrigin[],
+		from: number,
+		to: number
+	): Promise<void> {
+		const reordered = [...origins];
+		const [moved] = reordered.splice(from, 1);
+		reordered.splice(to, 0, moved);
+
+		let lostDerivedOrder = false;
+		const found = await this.editSliderBlock(el, ctx, body => {
+			const edit = applySlideOrder(body, origins, reordered);
+			lostDerivedOrder = edit.lostDerivedOrder;
+			return edit.body;
+		}).catch(error => {
+			console.error("Failed to save slide order:", error);
+			return false;
+		});
+		if (!found) {
+			new Notice("Could not find this slider's code block to save the new order.");
+		} else if (lostDerivedOrder) {
+			new Notice("Slides from a query or the note's own embeds stay in the order they are found in.");
+		}
+	}
+
+	/**
+	 * Lets media be dropped onto a rendered slider. Vault files and folders dragged from the file
+	 * explorer are linked as they are; files from outside the vault are first imported into the
+	 * attachment folder. The new entries are appended to the code block, which re-renders the slider.
+	 */
+	private registerMediaDrop(dropZone: HTMLElement, el: HTMLElement, settings: SliderSettings, ctx: MarkdownPostProcessorContext): void {
+		const getDraggedItems = (): DraggedVaultItems | null =>
+			(this.app as App & { dragManager?: { draggable: DraggedVaultItems | null } }).dragManager?.draggable ?? null;
+		// Images and thumbnails dragged out of the slider itself are not new media.
+		let dragStartedInside = false;
+		dropZone.addEventListener("dragstart", () => dragStartedInside = true);
+		dropZone.addEventListener("dragend", () => dragStartedInside = false);
+		const acceptsDrag = (evt: DragEvent) => {
+			if (dragStartedInside) return false;
+			const dragged = getDraggedItems();
+			if (dragged) return !!(dragged.file || dragged.files);
+			return !!evt.dataTransfer?.types.includes("Files");
+		};
+
+		dropZone.addEventListener("dragover", (evt: DragEvent) => {
+			if (!acceptsDrag(evt)) return;
+			evt.preventDefault();
+			evt.stopPropagation();
+			if (evt.dataTransfer) evt.dataTransfer.dropEffect = getDraggedItems() ? "link" : "copy";
+			dropZone.addClass("ms-drop-target");
+		});
+		dropZone.addEventListener("dragleave", (evt: DragEvent) => {
+			if (!(evt.relatedTarget instanceof Node) || !dropZone.contains(evt.relatedTarget)) {
+				dropZone.removeClass("ms-drop-target");
+			}
+		});
+		dropZone.addEventListener("drop", (evt: DragEvent) => {
+			dropZone.removeClass("ms-drop-target");
+			if (!acceptsDrag(evt)) return;
+			evt.preventDefault();
+			evt.stopPropagation();
+			// The drag data is only readable during the event, so it is collected before anything is awaited.
+			const dragged = getDraggedItems();
+			const vaultItems = dragged ? dragged.files ?? (dragged.file ? [dragged.file] : []) : [];
+			const externalFiles = dragged ? [] : Array.from(evt.dataTransfer?.files ?? []);
+			this.importDroppedMedia(vaultItems, externalFiles, el, settings, ctx).catch(error => {
+				console.error("Failed to add dropped media to slider:", error);
+				new Notice(`Could not add the dropped media: ${error.message ?? error}`);
+			});
+		});
+	}
+
+	private async importDroppedMedia(
+		vaultItems: TAbstractFile[],
+		externalFiles: File[],
+		el: HTMLElement,
+		settings: SliderSettings,
+		ctx: MarkdownPostProcessorContext
+	): Promise<void> {
+		const mediaExtensions = settings.fileTypes ?? DEFAULT_MEDIA_EXTENSIONS;
+		const isMedia = (name: string) => mediaExtensions.includes((name.split(".").pop() ?? "").toLowerCase());
+		const toEntry = (file: TFile) => formatSliderEntry({
+			path: this.app.metadataCache.fileToLinktext(file, ctx.sourcePath, false),
+			caption: null,
+			compareGroup: null,
+			attributes: null
+		});
+
+		const entries: string[] = [];
+		let skipped = 0;
+		for (const item of vaultItems) {
+			if (item instanceof TFolder) {
+				entries.push(`![[${item.path}/]]`);
+			} else if (item instanceof TFile && isMedia(item.name)) {
+				entries.push(toEntry(item));
+			} else {
+				skipped++;
+			}
+		}
+		for (const file of externalFiles) {
+			if (!isMedia(file.name)) {
+				skipped++;
+				continue;
+			}
+			const path = await this.app.fileManager.getAvailablePathForAttachment(file.name, ctx.sourcePath);
+			const imported = await this.app.vault.createBinary(path, await file.arrayBuffer());
+			entries.push(toEntry(imported));
+		}
+
+		if (skipped > 0) {
+			new Notice(`${skipped} dropped item(s) are not media this slider shows and were skipped.`);
+		}
+		if (entries.length === 0) return;
+
+		const found = await this.editSliderBlock(el, ctx, body => {
+			while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+			return [...body, ...entries];
+		});
+		if (!found) {
+			new Notice("Could not find this slider's code block to add the dropped media to.");
+		}
+	}
+
+	/**
+	 * Applies per-slide playback attributes (start/end range, loop, mute) to a video or audio element.
+	 * A segment that has played to its end is replayed from its start when play is pressed again.
+	 * @param media - The freshly created media element.
+	 * @param attributes - The slide's attributes, if it has any.
+	 * @param onFinished - Called when the media, or its segment, plays to the end without looping.
+	 */
+	private applyPlaybackAttributes(
+		media: HTMLMediaElement,
+		attributes: SlideAttributes | undefined,
+		onFinished?: () => void
+	): void {
+		const start = attributes?.start ?? 0;
+		const end = attributes?.end;
+		if (attributes?.muted !== undefined) media.muted = attributes.muted;
+		if (start === 0 && end === undefined) {
+			if (attributes?.loop !== undefined) media.loop = attributes.loop;
+			if (onFinished) media.addEventListener("ended", onFinished);
+			return;
+		}
+
+		if (start > 0) {
+			media.addEventListener("loadedmetadata", () => {
+				media.currentTime = start;
+			}, { once: true });
+		}
+
+		let finished = false;
+		const restartOrStop = () => {
+			if (attributes?.loop) {
+				media.currentTime = start;
+				// Rejects when autoplay is blocked or the slide was left meanwhile; the loop just stops.
+				media.play().catch((error: unknown) => {
+					if (!(error instanceof DOMException && error.name === "AbortError")) {
+						console.warn("Media Slider: could not loop the media:", error);
+					}
+				});
+			} else if (!finished) {
+				finished = true;
+				media.pause();
+				onFinished?.();
+			}
+		};
+		if (end !== undefined) {
+			media.addEventListener("timeupdate", () => {
+				if (media.currentTime >= end) restartOrStop();
+			});
+		}
+		media.addEventListener("play", () => {
+			if (finished || (end !== undefined && media.currentTime >= end)) {
+				finished = false;
+				media.currentTime = start;
+			}
+		});
+		media.addEventListener("ended", restartOrStop);
 	}
 
 	private addZoomPanSupport(img: HTMLImageElement, container: HTMLElement): void {
@@ -1868,7 +3644,8 @@ class MediaSliderSettingTab extends PluginSettingTab {
 		"Thumbnails",
 		"Image Processing",
 		"Annotations",
-		"Visualizer"
+		"Visualizer",
+		"Presets"
 	];
 
 	constructor(app: App, plugin: MediaSliderPlugin) {
@@ -1912,6 +3689,9 @@ class MediaSliderSettingTab extends PluginSettingTab {
 			case "Visualizer":
 				this.createVisualizerSettings(tabContent);
 				break;
+			case "Presets":
+				this.createPresetSettings(tabContent);
+				break;
 		}
 	}
 
@@ -1940,6 +3720,18 @@ class MediaSliderSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName("Show info button")
+			.setDesc("Show the button that opens a panel with the current photo's capture date, camera, lens, exposure, dimensions and file size.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showInfoButton)
+				.onChange(async (value) => {
+					this.plugin.settings.showInfoButton = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshSliders();
+				})
+			);
+
 		this.addSupportSection(containerEl);
 	}
 
@@ -1968,6 +3760,55 @@ class MediaSliderSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(containerEl)
+			.setName("Generate previews")
+			.setDesc("Show a frame of videos, the first page of PDFs, cover art or a waveform for audio, and the start of notes in thumbnails, instead of the file type.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.generatePreviews)
+				.onChange(async (value) => {
+					this.plugin.settings.generatePreviews = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshSliders();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Thumbnail cache size")
+			.setDesc("Thumbnails are kept as small WebP files in the plugin folder so reopening a note does not rebuild them. Size cap in MB; the least recently shown are removed past it. 0 turns the cache off.")
+			.addText(text => text
+				.setPlaceholder("100")
+				.setValue(String(this.plugin.settings.thumbnailCacheSize))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.thumbnailCacheSize = parsed;
+						await this.plugin.saveSettings();
+						await this.plugin.thumbnailCache.setMaxBytes(parsed * 1024 * 1024);
+						updateCacheUsage();
+					} else {
+						console.warn("Please enter a size of 0 or more.");
+					}
+				})
+			);
+
+		const cacheSetting = new Setting(containerEl)
+			.setName("Clear thumbnail cache")
+			.addButton(button => button
+				.setButtonText("Clear")
+				.onClick(async () => {
+					await this.plugin.clearThumbnailCache();
+					updateCacheUsage();
+					this.plugin.refreshSliders();
+				})
+			);
+		const updateCacheUsage = () => {
+			const cache = this.plugin.thumbnailCache;
+			const megabytes = cache.totalSize / (1024 * 1024);
+			cacheSetting.setDesc(`${cache.count} thumbnail(s) using ${megabytes.toFixed(megabytes < 10 ? 1 : 0)} MB.`);
+		};
+		cacheSetting.setDesc("Reading the cache…");
+		void this.plugin.thumbnailCache.load().then(updateCacheUsage);
+
 		this.addSupportSection(containerEl);
 	}
 
@@ -1996,12 +3837,88 @@ class MediaSliderSettingTab extends PluginSettingTab {
 						this.plugin.settings.compressionQuality = parsed;
 						await this.plugin.saveSettings();
 						this.plugin.refreshSliders();
+						refreshReadout();
 					} else {
 						console.warn("Please enter a number between 0 and 1.");
 					}
 				})
 			);
 
+		new Setting(containerEl)
+			.setName("Compression size")
+			.setDesc("Largest size of a compressed image, as WIDTHxHEIGHT (e.g. 1600x1200), or \"fit\" to size it to the slider times the screen's pixel density. Can be overridden per slider with compressionSize.")
+			.addText(text => text
+				.setPlaceholder("1600x1200")
+				.setValue(formatCompressionSize(this.plugin.settings.compressionSize))
+				.onChange(async (value) => {
+					const parsed = parseCompressionSize(value);
+					if (parsed) {
+						this.plugin.settings.compressionSize = parsed;
+						await this.plugin.saveSettings();
+						this.plugin.refreshSliders();
+						refreshReadout();
+					} else {
+						console.warn("Please enter a size such as 1600x1200, or fit.");
+					}
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Compression format")
+			.setDesc("Format of compressed images. Auto keeps transparency by writing WebP for images that have it and JPEG for the rest; JPEG puts transparent parts on white.")
+			.addDropdown(dropdown => {
+				COMPRESSION_FORMATS.forEach(format => dropdown.addOption(format, format === "auto" ? "Auto" : format.toUpperCase()));
+				dropdown
+					.setValue(this.plugin.settings.compressionFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.compressionFormat = value as CompressionFormat;
+						await this.plugin.saveSettings();
+						this.plugin.refreshSliders();
+						refreshReadout();
+					});
+			});
+
+		// Compresses a sample image with the settings above and shows the size before and after.
+		const imageExtensions = ["png", "jpg", "jpeg", "webp", "bmp", "avif"];
+		let samplePath = this.app.vault.getFiles().find(file => imageExtensions.includes(file.extension.toLowerCase()))?.path ?? "";
+		const readoutSetting = new Setting(containerEl)
+			.setName("Size preview")
+			.addText(text => text
+				.setPlaceholder("Path of an image in the vault")
+				.setValue(samplePath)
+				.onChange(value => {
+					samplePath = value.trim();
+					refreshReadout();
+				})
+			);
+		const formatBytes = (bytes: number) => bytes >= 1024 * 1024
+			? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+			: `${Math.max(1, Math.round(bytes / 1024))} KB`;
+		let readoutRun = 0;
+		const refreshReadout = debounce(async () => {
+			const run = ++readoutRun;
+			const file = this.app.vault.getAbstractFileByPath(samplePath);
+			if (!(file instanceof TFile) || !imageExtensions.includes(file.extension.toLowerCase())) {
+				readoutSetting.setDesc("Enter the path of an image to see how much compression saves.");
+				return;
+			}
+			readoutSetting.setDesc("Compressing…");
+			try {
+				const result = await this.plugin.measureCompression(file);
+				if (run !== readoutRun) return;
+				const saved = Math.round((1 - result.blob.size / file.stat.size) * 100);
+				readoutSetting.setDesc(
+					`Before: ${formatBytes(file.stat.size)}. After: ${formatBytes(result.blob.size)}, ` +
+					`${result.width}×${result.height} ${result.blob.type.replace("image/", "").toUpperCase()}` +
+					(saved > 0 ? ` (${saved}% smaller).` : ".")
+				);
+			} catch (error) {
+				if (run !== readoutRun) return;
+				readoutSetting.setDesc(`This image could not be compressed: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}, 400, true);
+		refreshReadout();
+
 		new Setting(containerEl)
 			.setName("Enable compare mode")
 			.setDesc("Enable image comparison feature. Can be configured per slider in YAML.")
@@ -2073,6 +3990,93 @@ class MediaSliderSettingTab extends PluginSettingTab {
 		this.addSupportSection(containerEl);
 	}
 
+	private createPresetSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("p", {
+			text: "Presets are named sets of slider options. Use one in a block with \"preset: name\" in its YAML header; options in the block override the preset.",
+			cls: "setting-item-description"
+		});
+
+		const refreshSliders = debounce(() => this.plugin.refreshSliders(), 800, true);
+
+		for (const name of Object.keys(this.plugin.settings.presets)) {
+			const setting = new Setting(containerEl)
+				.setName(name)
+				.setClass("ms-preset-setting")
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("Delete preset")
+					.onClick(async () => {
+						delete this.plugin.settings.presets[name];
+						await this.plugin.saveSettings();
+						this.plugin.refreshSliders();
+						this.display();
+					})
+				);
+
+			const issuesEl = setting.descEl.createDiv("ms-preset-issues");
+			const showIssues = (yaml: string) => {
+				issuesEl.empty();
+				let raw: unknown = null;
+				try {
+					raw = parseYaml(yaml);
+				} catch (error) {
+					issuesEl.setText(`YAML syntax error: ${error.message ?? error}`);
+					return;
+				}
+				for (const issue of validateSettings(raw, PRESET_SCHEMA).issues) {
+					issuesEl.createDiv({
+						text: `${issue.key ? `${issue.key}: ` : ""}${issue.message}${issue.suggestion ? ` Did you mean "${issue.suggestion}"?` : ""}`
+					});
+				}
+			};
+			showIssues(this.plugin.settings.presets[name]);
+
+			setting.addTextArea(text => {
+				text.inputEl.rows = 8;
+				text.inputEl.classList.add("ms-preset-yaml");
+				text
+					.setPlaceholder("thumbnailPosition: left\ntransitionEffect: slide\nheight: 500px")
+					.setValue(this.plugin.settings.presets[name])
+					.onChange(async (value) => {
+						this.plugin.settings.presets[name] = value;
+						showIssues(value);
+						await this.plugin.saveSettings();
+						refreshSliders();
+					});
+			});
+		}
+
+		let newPresetName = "";
+		new Setting(containerEl)
+			.setName("Add preset")
+			.setDesc("Letters, numbers, dashes and underscores.")
+			.addText(text => text
+				.setPlaceholder("gallery")
+				.onChange(value => {
+					newPresetName = value.trim();
+				})
+			)
+			.addButton(button => button
+				.setButtonText("Add")
+				.setCta()
+				.onClick(async () => {
+					if (!/^[\w-]+$/.test(newPresetName)) {
+						new Notice("Preset names may only use letters, numbers, dashes and underscores.");
+						return;
+					}
+					if (newPresetName in this.plugin.settings.presets) {
+						new Notice(`A preset named "${newPresetName}" already exists.`);
+						return;
+					}
+					this.plugin.settings.presets[newPresetName] = "";
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		this.addSupportSection(containerEl);
+	}
+
 	private addSupportSection(containerEl: HTMLElement): void {
 		const supportDiv = containerEl.createDiv("ms-settings-support");
 		supportDiv.createEl("span", { text: "Enjoy this plugin? " });
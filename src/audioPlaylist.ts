@@ -0,0 +1,315 @@
+import { setIcon } from "obsidian";
+
+export const REPEAT_MODES = ["off", "all", "one"] as const;
+
+export type RepeatMode = (typeof REPEAT_MODES)[number];
+
+export interface PlaylistTrack {
+	/** Index of the track's slide in the slider. */
+	slideIndex: number;
+	title: string;
+	src: string;
+	/** Segment to play, in seconds, from the slide's start/end attributes. */
+	start?: number;
+	end?: number;
+}
+
+export interface PlaylistOptions {
+	shuffle: boolean;
+	repeat: RepeatMode;
+}
+
+const formatTime = (seconds: number): string => {
+	if (!isFinite(seconds) || seconds < 0) return "0:00";
+	const minutes = Math.floor(seconds / 60);
+	return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+};
+
+/**
+ * Plays the audio slides of one slider as a continuous playlist. The player owns a single
+ * detached audio element, so playback carries on while the slider is scrolled out of view or
+ * re-rendered; a re-rendered slider attaches to the same player again.
+ */
+export class AudioPlaylist {
+	readonly audio: HTMLAudioElement = new Audio();
+	private tracks: PlaylistTrack[] = [];
+	private options: PlaylistOptions;
+	/** Track positions in playing order; shuffled when shuffle is on. */
+	private order: number[] = [];
+	private position = -1;
+	private onTrackChange: ((track: PlaylistTrack) => void) | null = null;
+	private onStateChange = new Set<() => void>();
+
+	constructor(options: PlaylistOptions) {
+		this.options = { ...options };
+		this.audio.preload = "metadata";
+		this.audio.addEventListener("ended", () => this.advance(true));
+		this.audio.addEventListener("timeupdate", () => {
+			const end = this.current?.end;
+			if (end !== undefined && this.audio.currentTime >= end) this.advance(true);
+		});
+		for (const event of ["play", "pause", "timeupdate", "loadedmetadata"]) {
+			this.audio.addEventListener(event, () => this.onStateChange.forEach(listener => listener()));
+		}
+	}
+
+	get current(): PlaylistTrack | null {
+		return this.position === -1 ? null : this.tracks[this.order[this.position]] ?? null;
+	}
+
+	get isPlaying(): boolean {
+		return !this.audio.paused;
+	}
+
+	/**
+	 * Replaces the track list, e.g. after the slider's entries changed, keeping the current track
+	 * when it is still there.
+	 */
+	setTracks(tracks: PlaylistTrack[]): void {
+		const currentSrc = this.current?.src;
+		this.tracks = tracks;
+		this.buildOrder();
+		this.position = currentSrc === undefined ? -1 : this.order.findIndex(i => this.tracks[i].src === currentSrc);
+		if (this.position === -1 && currentSrc !== undefined) this.stop();
+		this.notify();
+	}
+
+	setOptions(options: Partial<PlaylistOptions>): void {
+		const reshuffle = options.shuffle !== undefined && options.shuffle !== this.options.shuffle;
+		this.options = { ...this.options, ...options };
+		if (reshuffle) {
+			const current = this.current;
+			this.buildOrder();
+			this.position = current ? this.order.indexOf(this.tracks.indexOf(current)) : -1;
+		}
+		this.notify();
+	}
+
+	getOptions(): PlaylistOptions {
+		return { ...this.options };
+	}
+
+	/**
+	 * Sets the slider that follows the playlist: it is told about every track change so it can
+	 * show the track's slide. A newer slider replaces the previous one.
+	 * @returns A function that detaches the slider again.
+	 */
+	attach(onTrackChange: (track: PlaylistTrack) => void): () => void {
+		this.onTrackChange = onTrackChange;
+		return () => {
+			if (this.onTrackChange === onTrackChange) this.onTrackChange = null;
+		};
+	}
+
+	/** Whether a slide belongs to the playlist. */
+	hasSlide(slideIndex: number): boolean {
+		return this.tracks.some(track => track.slideIndex === slideIndex);
+	}
+
+	/**
+	 * Switches to the track of a slide.
+	 * @param slideIndex - The slide to play.
+	 * @param autoplay - Start playing; otherwise the track is only loaded.
+	 */
+	select(slideIndex: number, autoplay: boolean): void {
+		const trackIndex = this.tracks.findIndex(track => track.slideIndex === slideIndex);
+		if (trackIndex === -1) return;
+		const position = this.order.indexOf(trackIndex);
+		if (position !== this.position) {
+			this.position = position;
+			this.load();
+		}
+		if (autoplay) this.play();
+	}
+
+	togglePlay(): void {
+		if (this.position === -1) {
+			this.advance(false);
+			return;
+		}
+		if (this.audio.paused) {
+			this.play();
+		} else {
+			this.audio.pause();
+		}
+	}
+
+	next(): void {
+		this.advance(false);
+	}
+
+	previous(): void {
+		if (this.tracks.length === 0) return;
+		// Like most players: restart the track unless it has only just begun.
+		if (this.audio.currentTime - (this.current?.start ?? 0) > 3) {
+			this.audio.currentTime = this.current?.start ?? 0;
+			return;
+		}
+		this.position = this.position <= 0 ? this.order.length - 1 : this.position - 1;
+		this.load();
+		this.playAndAnnounce();
+	}
+
+	stop(): void {
+		this.audio.pause();
+	}
+
+	destroy(): void {
+		this.audio.pause();
+		this.audio.removeAttribute("src");
+		this.audio.load();
+		this.onStateChange.clear();
+		this.onTrackChange = null;
+	}
+
+	/**
+	 * Builds the compact now-playing bar: previous, play/pause and next buttons, the track title
+	 * with elapsed time, shuffle and repeat toggles, and a track list.
+	 * @param containerEl - Where to add the bar.
+	 * @returns A function that stops updating the bar, for when the slider is rebuilt.
+	 */
+	renderBar(containerEl: HTMLElement): () => void {
+		const bar = containerEl.createDiv("ms-playlist-bar");
+		const controls = bar.createDiv("ms-playlist-controls");
+		const button = (icon: string, label: string, onClick: () => void) => {
+			const btn = controls.createEl("button", { cls: "ms-playlist-btn clickable-icon", attr: { "aria-label": label } });
+			setIcon(btn, icon);
+			btn.onclick = evt => {
+				evt.stopPropagation();
+				onClick();
+			};
+			return btn;
+		};
+		button("skip-back", "Previous track", () => this.previous());
+		const playBtn = button("play", "Play", () => this.togglePlay());
+		button("skip-forward", "Next track", () => this.next());
+
+		const info = bar.createDiv("ms-playlist-info");
+		const titleEl = info.createDiv("ms-playlist-title");
+		const timeEl = info.createDiv("ms-playlist-time");
+
+		const modes = bar.createDiv("ms-playlist-controls");
+		const shuffleBtn = modes.createEl("button", { cls: "ms-playlist-btn clickable-icon", attr: { "aria-label": "Shuffle" } });
+		setIcon(shuffleBtn, "shuffle");
+		shuffleBtn.onclick = () => this.setOptions({ shuffle: !this.options.shuffle });
+		const repeatBtn = modes.createEl("button", { cls: "ms-playlist-btn clickable-icon" });
+		repeatBtn.onclick = () => {
+			const nextMode = REPEAT_MODES[(REPEAT_MODES.indexOf(this.options.repeat) + 1) % REPEAT_MODES.length];
+			this.setOptions({ repeat: nextMode });
+		};
+		const listBtn = modes.createEl("button", { cls: "ms-playlist-btn clickable-icon", attr: { "aria-label": "Track list" } });
+		setIcon(listBtn, "list-music");
+
+		const listEl = bar.createEl("ol", { cls: "ms-playlist-tracks" });
+		listEl.hide();
+		listBtn.onclick = () => listEl.toggle(!listEl.isShown());
+
+		let renderedTracks: PlaylistTrack[] | null = null;
+		const update = () => {
+			const current = this.current;
+			setIcon(playBtn, this.isPlaying ? "pause" : "play");
+			playBtn.setAttr("aria-label", this.isPlaying ? "Pause" : "Play");
+			titleEl.setText(current ? current.title : `${this.tracks.length} track(s)`);
+			const start = current?.start ?? 0;
+			const end = current?.end ?? this.audio.duration;
+			timeEl.setText(current ? `${formatTime(this.audio.currentTime - start)} / ${formatTime(end - start)}` : "");
+			shuffleBtn.toggleClass("is-active", this.options.shuffle);
+			setIcon(repeatBtn, this.options.repeat === "one" ? "repeat-1" : "repeat");
+			repeatBtn.toggleClass("is-active", this.options.repeat !== "off");
+			repeatBtn.setAttr("aria-label", `Repeat: ${this.options.repeat}`);
+
+			if (renderedTracks !== this.tracks) {
+				renderedTracks = this.tracks;
+				listEl.empty();
+				this.tracks.forEach(track => {
+					const item = listEl.createEl("li", { text: track.title, cls: "ms-playlist-track" });
+					item.onclick = () => {
+						this.select(track.slideIndex, true);
+						this.announce();
+					};
+				});
+			}
+			Array.from(listEl.children).forEach((item, i) => item.toggleClass("is-current", this.tracks[i] === current));
+		};
+		this.onStateChange.add(update);
+		update();
+		return () => {
+			this.onStateChange.delete(update);
+			bar.remove();
+		};
+	}
+
+	private buildOrder(): void {
+		this.order = this.tracks.map((_, i) => i);
+		if (!this.options.shuffle) return;
+		for (let i = this.order.length - 1; i > 0; i--) {
+			const j = Math.floor(Math.random() * (i + 1));
+			[this.order[i], this.order[j]] = [this.order[j], this.order[i]];
+		}
+	}
+
+	/**
+	 * Moves on from the current track.
+	 * @param finished - The track played to its end, so `repeat: one` replays it and the
+	 * end of the list stops playback unless `repeat: all`.
+	 */
+	private advance(finished: boolean): void {
+		if (this.tracks.length === 0) return;
+		if (finished && this.options.repeat === "one") {
+			this.audio.currentTime = this.current?.start ?? 0;
+			this.play();
+			return;
+		}
+		if (this.position >= this.order.length - 1) {
+			if (finished && this.options.repeat === "off") {
+				this.audio.pause();
+				return;
+			}
+			if (this.options.shuffle) this.buildOrder();
+			this.position = 0;
+		} else {
+			this.position++;
+		}
+		this.load();
+		this.playAndAnnounce();
+	}
+
+	private load(): void {
+		const track = this.current;
+		if (!track) return;
+		this.audio.src = track.src;
+		if (track.start) {
+			this.audio.addEventListener("loadedmetadata", () => {
+				this.audio.currentTime = track.start ?? 0;
+			}, { once: true });
+		}
+		this.notify();
+	}
+
+	private playAndAnnounce(): void {
+		this.play();
+		this.announce();
+	}
+
+	/**
+	 * Starts playback. Switching tracks quickly aborts the previous attempt, which is expected;
+	 * other failures, such as blocked autoplay, leave the audio paused without a pause event, so
+	 * the bar is updated by hand.
+	 */
+	private play(): void {
+		this.audio.play().catch((error: unknown) => {
+			if (error instanceof DOMException && error.name === "AbortError") return;
+			console.warn("Media Slider: playlist could not play:", error);
+			this.notify();
+		});
+	}
+
+	private announce(): void {
+		const track = this.current;
+		if (track) this.onTrackChange?.(track);
+	}
+
+	private notify(): void {
+		this.onStateChange.forEach(listener => listener());
+	}
+}
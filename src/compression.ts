@@ -1,41 +1,257 @@
-export async function compressImage(
-	imageUrl: string,
-	maxWidth: number = 1600,
-	maxHeight: number = 1200,
-	quality: number = 0.7
-): Promise<string> {
+export const COMPRESSION_FORMATS = ["auto", "jpeg", "webp", "png"] as const;
+
+/** Output format; `auto` writes WebP for images with transparency and JPEG for the rest. */
+export type CompressionFormat = (typeof COMPRESSION_FORMATS)[number];
+
+/** Largest size of a compressed image, or `fit` for the slider's size times the device pixel ratio. */
+export type CompressionSize = "fit" | { width: number; height: number };
+
+export const DEFAULT_COMPRESSION_SIZE = { width: 1600, height: 1200 };
+
+export interface CompressionOptions {
+	maxWidth: number;
+	maxHeight: number;
+	/** Quality from 0 to 1; PNG ignores it. */
+	quality: number;
+	format: CompressionFormat;
+}
+
+/**
+ * Reads a compression size as typed in the settings: `WIDTHxHEIGHT`, a single number for both,
+ * or `fit`.
+ * @returns The size, or null when the text is not one.
+ */
+export function parseCompressionSize(value: string): CompressionSize | null {
+	const text = value.trim().toLowerCase();
+	if (text === "fit") return "fit";
+	const match = text.match(/^(\d+)\s*(?:[x×]\s*(\d+))?$/);
+	if (!match) return null;
+	const width = parseInt(match[1], 10);
+	const height = match[2] ? parseInt(match[2], 10) : width;
+	return width > 0 && height > 0 ? { width, height } : null;
+}
+
+export function formatCompressionSize(size: CompressionSize): string {
+	return size === "fit" ? "fit" : `${size.width}x${size.height}`;
+}
+
+/** Whether any pixel of the canvas is not fully opaque. */
+function hasTransparency(ctx: CanvasRenderingContext2D, width: number, height: number): boolean {
+	const pixels = ctx.getImageData(0, 0, width, height).data;
+	for (let i = 3; i < pixels.length; i += 4) {
+		if (pixels[i] < 255) return true;
+	}
+	return false;
+}
+
+/**
+ * Scales an image down to fit the given size and re-encodes it, on the main thread. Used where
+ * the compression worker is not available. The browser applies the EXIF orientation when it
+ * decodes the image, so the result is upright.
+ * @returns The compressed image.
+ */
+export async function compressImage(imageUrl: string, options: CompressionOptions): Promise<Blob> {
 	return new Promise((resolve, reject) => {
 		const img = new Image();
 		// To support images from other domains, set crossOrigin.
 		img.crossOrigin = "Anonymous";
 		img.onload = () => {
-			let { width, height } = img;
-			let newWidth = width;
-			let newHeight = height;
-
-			// Calculate the scaling factor.
-			if (width > maxWidth || height > maxHeight) {
-				const widthRatio = maxWidth / width;
-				const heightRatio = maxHeight / height;
-				const ratio = Math.min(widthRatio, heightRatio);
-				newWidth = width * ratio;
-				newHeight = height * ratio;
-			}
+			const ratio = Math.min(1, options.maxWidth / img.naturalWidth, options.maxHeight / img.naturalHeight);
+			const width = Math.max(1, Math.round(img.naturalWidth * ratio));
+			const height = Math.max(1, Math.round(img.naturalHeight * ratio));
 
 			// Create a canvas and draw the resized image.
 			const canvas = document.createElement("canvas");
-			canvas.width = newWidth;
-			canvas.height = newHeight;
+			canvas.width = width;
+			canvas.height = height;
 			const ctx = canvas.getContext("2d");
 			if (!ctx) {
 				reject("Canvas context not available");
 				return;
 			}
-			ctx.drawImage(img, 0, 0, newWidth, newHeight);
-			const dataUrl = canvas.toDataURL("image/jpeg", quality);
-			resolve(dataUrl);
+			ctx.drawImage(img, 0, 0, width, height);
+			let format = options.format;
+			if (format === "auto") format = hasTransparency(ctx, width, height) ? "webp" : "jpeg";
+			if (format === "jpeg") {
+				// JPEG has no alpha; transparent parts would turn black without a backdrop.
+				ctx.globalCompositeOperation = "destination-over";
+				ctx.fillStyle = "#fff";
+				ctx.fillRect(0, 0, width, height);
+			}
+			canvas.toBlob(blob => blob ? resolve(blob) : reject("Image could not be encoded"), `image/${format}`, options.quality);
 		};
 		img.onerror = (err) => reject(err);
 		img.src = imageUrl;
 	});
 }
+
+// Runs in the worker: decodes with createImageBitmap, upright by its EXIF orientation, scales on
+// an OffscreenCanvas and answers with the encoded blob, tagged with the request's id. The format
+// choice mirrors compressImage.
+const WORKER_SOURCE = `
+const hasTransparency = (ctx, width, height) => {
+	const pixels = ctx.getImageData(0, 0, width, height).data;
+	for (let i = 3; i < pixels.length; i += 4) {
+		if (pixels[i] < 255) return true;
+	}
+	return false;
+};
+
+self.onmessage = async (event) => {
+	const { id, data, options } = event.data;
+	try {
+		const bitmap = await createImageBitmap(new Blob([data]), { imageOrientation: "from-image" });
+		const ratio = Math.min(1, options.maxWidth / bitmap.width, options.maxHeight / bitmap.height);
+		const width = Math.max(1, Math.round(bitmap.width * ratio));
+		const height = Math.max(1, Math.round(bitmap.height * ratio));
+		const canvas = new OffscreenCanvas(width, height);
+		const ctx = canvas.getContext("2d");
+		ctx.drawImage(bitmap, 0, 0, width, height);
+		bitmap.close();
+		let format = options.format;
+		if (format === "auto") format = hasTransparency(ctx, width, height) ? "webp" : "jpeg";
+		if (format === "jpeg") {
+			ctx.globalCompositeOperation = "destination-over";
+			ctx.fillStyle = "#fff";
+			ctx.fillRect(0, 0, width, height);
+		}
+		const blob = await canvas.convertToBlob({ type: "image/" + format, quality: options.quality });
+		self.postMessage({ id, blob });
+	} catch (error) {
+		self.postMessage({ id, error: String(error) });
+	}
+};
+`;
+
+interface WorkerReply {
+	id: number;
+	blob?: Blob;
+	error?: string;
+}
+
+/**
+ * Compresses images in a background worker, so decoding and scaling large photos does not
+ * block the interface. The worker is started on first use and shared by every slider.
+ */
+export class CompressionWorker {
+	private worker: Worker | null = null;
+	private workerUrl: string | null = null;
+	private nextId = 0;
+	private pending = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+	/** Whether this platform can compress off the main thread. */
+	static get supported(): boolean {
+		return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined";
+	}
+
+	/**
+	 * Scales an image down to fit the given size and re-encodes it.
+	 * @param data - The image file; it is handed over to the worker and unusable afterwards.
+	 * @param options - Size, quality and format of the result.
+	 * @returns The compressed image; rejects when the worker cannot run or decode the image.
+	 */
+	compress(data: ArrayBuffer, options: CompressionOptions): Promise<Blob> {
+		return new Promise((resolve, reject) => {
+			const worker = this.start();
+			if (!worker) {
+				reject(new Error("Compression worker is not supported here"));
+				return;
+			}
+			const id = this.nextId++;
+			this.pending.set(id, { resolve, reject });
+			worker.postMessage({ id, data, options }, [data]);
+		});
+	}
+
+	/** Stops the worker; requests still running are rejected. */
+	terminate(): void {
+		this.worker?.terminate();
+		this.worker = null;
+		if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+		this.workerUrl = null;
+		this.pending.forEach(({ reject }) => reject(new Error("Compression worker stopped")));
+		this.pending.clear();
+	}
+
+	private start(): Worker | null {
+		if (this.worker) return this.worker;
+		if (!CompressionWorker.supported) return null;
+		this.workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "text/javascript" }));
+		const worker = new Worker(this.workerUrl);
+		worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+			const { id, blob, error } = event.data;
+			const request = this.pending.get(id);
+			this.pending.delete(id);
+			if (!request) return;
+			if (blob) {
+				request.resolve(blob);
+			} else {
+				request.reject(new Error(error ?? "Compression failed"));
+			}
+		};
+		worker.onerror = event => {
+			event.preventDefault();
+			console.error("Media Slider: compression worker failed:", event.message);
+			this.terminate();
+		};
+		this.worker = worker;
+		return worker;
+	}
+}
+
+/**
+ * Keeps the compressed images of one slider as object URLs, so going back to a slide shows it
+ * at once instead of compressing it again. Only the most recently used images are kept; the
+ * rest, and everything on {@link clear}, have their URLs revoked.
+ */
+export class CompressedImageCache {
+	/** In order of last use, oldest first. */
+	private urls = new Map<string, Promise<string>>();
+	private limit: number;
+
+	/**
+	 * @param limit - Most images kept at once.
+	 */
+	constructor(limit: number = 30) {
+		this.limit = limit;
+	}
+
+	/**
+	 * Returns the object URL of a compressed image, compressing it on first request.
+	 * @param key - Identifies the file version and compression, e.g. path, mtime, quality and size.
+	 * @param compress - Produces the compressed image; a failure is not cached.
+	 */
+	get(key: string, compress: () => Promise<Blob>): Promise<string> {
+		let url = this.urls.get(key);
+		if (url) {
+			this.urls.delete(key);
+			this.urls.set(key, url);
+			return url;
+		}
+		url = compress().then(blob => URL.createObjectURL(blob));
+		this.urls.set(key, url);
+		url.catch(() => {
+			if (this.urls.get(key) === url) this.urls.delete(key);
+		});
+		this.trim();
+		return url;
+	}
+
+	/** Revokes every URL; called when the slider is destroyed. */
+	clear(): void {
+		this.urls.forEach(revoke);
+		this.urls.clear();
+	}
+
+	private trim(): void {
+		for (const [key, url] of Array.from(this.urls)) {
+			if (this.urls.size <= this.limit) break;
+			this.urls.delete(key);
+			revoke(url);
+		}
+	}
+}
+
+const revoke = (url: Promise<string>): void => {
+	url.then(value => URL.revokeObjectURL(value), () => undefined);
+};
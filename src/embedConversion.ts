@@ -0,0 +1,138 @@
+import { isMediaQuery } from "./querySources";
+import { formatSlideAttributes } from "./slideAttributes";
+import { findSliderHeader, formatSliderBlock, formatSliderEntry, parseSliderEntry } from "./sliderSource";
+
+export interface SliderBlockRange {
+	/** Line of the opening fence. */
+	start: number;
+	/** Line of the closing fence. */
+	end: number;
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+// One embed, wikilink or markdown style, with an optional attribute block after it.
+const EMBED_PATTERN = /!\[\[[^\]]+\]\](?:\s*\{[^{}]*\})?|!\[[^\]]*\]\([^)]+\)(?:\s*\{[^{}]*\})?/g;
+const OPEN_FENCE = /^\s*(`{3,}|~{3,})\s*media-slider\s*$/;
+
+/**
+ * Splits a line into its embeds when it holds nothing else.
+ * @returns The embeds in order, or null when the line has other text on it.
+ */
+const splitEmbeds = (line: string): string[] | null => {
+	const embeds = line.match(EMBED_PATTERN);
+	if (!embeds || line.replace(EMBED_PATTERN, "").trim()) return null;
+	return embeds;
+};
+
+/**
+ * Sets the caption of an embed, keeping its link style so markdown paths stay valid.
+ */
+const withCaption = (embed: string, caption: string): string => {
+	const { entry } = parseSliderEntry(embed);
+	if (!entry || entry.caption) return embed;
+	if (embed.startsWith("![[")) {
+		return formatSliderEntry({ ...entry, caption });
+	}
+	const attributes = entry.attributes ? formatSlideAttributes(entry.attributes) : "";
+	return `![${caption}](${entry.path})${attributes ? ` ${attributes}` : ""}`;
+};
+
+/**
+ * Wraps the embeds of a selection in a media-slider block. Embeds are kept as written, so their
+ * `|caption` becomes the slide caption.
+ * @param text - The selected markdown.
+ * @param headingCaptions - Use a heading directly above an embed line as the caption of its
+ * uncaptioned embeds, and drop the heading.
+ * @returns The block, or null when there are no embeds, and the lines that were not embeds.
+ */
+export function embedsToSliderBlock(text: string, headingCaptions: boolean): { block: string | null; leftover: string[] } {
+	const entries: string[] = [];
+	const leftover: string[] = [];
+	let heading: { line: string; caption: string } | null = null;
+
+	for (const line of text.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+
+		const headingMatch = headingCaptions ? trimmed.match(HEADING_PATTERN) : null;
+		if (headingMatch) {
+			if (heading) leftover.push(heading.line);
+			heading = { line, caption: headingMatch[1] };
+			continue;
+		}
+
+		const embeds = splitEmbeds(trimmed);
+		if (embeds) {
+			const caption = heading?.caption;
+			entries.push(...embeds.map(embed => caption ? withCaption(embed, caption) : embed));
+		} else {
+			if (heading) leftover.push(heading.line);
+			leftover.push(line);
+		}
+		heading = null;
+	}
+	if (heading) leftover.push(heading.line);
+
+	return { block: entries.length > 0 ? formatSliderBlock({}, entries) : null, leftover };
+}
+
+/**
+ * Finds the media-slider block around a line.
+ * @param lines - The note's lines.
+ * @param line - A line inside the block, or one of its fences.
+ * @returns The fence lines, or null when the line is not in a media-slider block.
+ */
+export function findSliderBlock(lines: string[], line: number): SliderBlockRange | null {
+	let open: { fence: string; start: number } | null = null;
+	let inOtherBlock: string | null = null;
+
+	for (let i = 0; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (open) {
+			if (trimmed.startsWith(open.fence) && trimmed.replace(/[`~]/g, "") === "") {
+				if (line >= open.start && line <= i) return { start: open.start, end: i };
+				open = null;
+			}
+			continue;
+		}
+		if (inOtherBlock) {
+			if (trimmed.startsWith(inOtherBlock) && trimmed.replace(/[`~]/g, "") === "") inOtherBlock = null;
+			continue;
+		}
+		const sliderFence = lines[i].match(OPEN_FENCE);
+		if (sliderFence) {
+			open = { fence: sliderFence[1], start: i };
+			continue;
+		}
+		const otherFence = trimmed.match(/^(`{3,}|~{3,})/);
+		if (otherFence) inOtherBlock = otherFence[1];
+		if (i > line) break;
+	}
+	return null;
+}
+
+/**
+ * Expands the body of a media-slider block back into plain embeds, one per line. Entries already
+ * written as embeds are kept as they are, with their captions, compare groups and attributes;
+ * bare paths become `![[path]]`. Folders, queries and `![[#embeds]]` cannot be expanded without
+ * losing what they track, so they are kept too.
+ * @param body - The lines between the fences.
+ * @returns The embed lines, and whether a YAML header was dropped.
+ */
+export function sliderBlockToEmbeds(body: string[]): { lines: string[]; droppedHeader: boolean } {
+	const header = findSliderHeader(body);
+	const droppedHeader = !!header && body.slice(header.start + 1, header.end).some(line => line.trim());
+
+	const lines: string[] = [];
+	for (const line of body.slice(header ? header.end + 1 : 0)) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+		if (trimmed.startsWith("!") || isMediaQuery(trimmed) || /\/\]\]$/.test(trimmed)) {
+			lines.push(trimmed);
+			continue;
+		}
+		const { entry } = parseSliderEntry(trimmed);
+		lines.push(entry ? formatSliderEntry(entry) : trimmed);
+	}
+	return { lines, droppedHeader };
+}
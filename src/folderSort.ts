@@ -0,0 +1,87 @@
+import { TFile } from "obsidian";
+
+export const FOLDER_SORT_MODES = ["name", "name-natural", "mtime", "ctime", "size", "extension", "random", "manual"] as const;
+
+export type FolderSortMode = (typeof FOLDER_SORT_MODES)[number];
+
+export type SortOrder = "asc" | "desc";
+
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+// mulberry32: small, fast and good enough to give a stable shuffle for a given seed.
+const seededRandom = (seed: number): (() => number) => {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+const byPath = (a: TFile, b: TFile): number => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+
+/**
+ * Sorts vault files for a folder source using the stat data Obsidian already keeps in memory.
+ * Ties on mtime, ctime, size and extension fall back to natural path order so the result is stable.
+ * @param files - The files collected from the folder.
+ * @param mode - The sort key.
+ * @param order - Ascending or descending. Ignored for `random` and `manual`.
+ * @param seed - Seed for `random`; a new shuffle is drawn on every call when omitted.
+ * @param manualOrder - Vault paths for `manual`, in order. Files not listed follow in natural order.
+ * @returns A new, sorted array.
+ */
+export function sortFolderFiles(
+	files: TFile[],
+	mode: FolderSortMode = "name",
+	order: SortOrder = "asc",
+	seed: number | null = null,
+	manualOrder: string[] = []
+): TFile[] {
+	const sorted = [...files];
+
+	if (mode === "manual") {
+		const rank = (file: TFile) => {
+			const index = manualOrder.indexOf(file.path);
+			return index === -1 ? manualOrder.length : index;
+		};
+		return sorted.sort((a, b) => rank(a) - rank(b) || naturalCollator.compare(a.path, b.path));
+	}
+
+	if (mode === "random") {
+		const random = seed === null ? Math.random : seededRandom(seed);
+		// Shuffle from a deterministic starting order so the same seed always gives the same result.
+		sorted.sort(byPath);
+		for (let i = sorted.length - 1; i > 0; i--) {
+			const j = Math.floor(random() * (i + 1));
+			[sorted[i], sorted[j]] = [sorted[j], sorted[i]];
+		}
+		return sorted;
+	}
+
+	const natural = (a: TFile, b: TFile) => naturalCollator.compare(a.path, b.path);
+	let compare: (a: TFile, b: TFile) => number;
+	switch (mode) {
+		case "name-natural":
+			compare = natural;
+			break;
+		case "mtime":
+			compare = (a, b) => a.stat.mtime - b.stat.mtime || natural(a, b);
+			break;
+		case "ctime":
+			compare = (a, b) => a.stat.ctime - b.stat.ctime || natural(a, b);
+			break;
+		case "size":
+			compare = (a, b) => a.stat.size - b.stat.size || natural(a, b);
+			break;
+		case "extension":
+			compare = (a, b) => naturalCollator.compare(a.extension, b.extension) || natural(a, b);
+			break;
+		default:
+			compare = byPath;
+	}
+
+	sorted.sort(order === "desc" ? (a, b) => compare(b, a) : compare);
+	return sorted;
+}
@@ -0,0 +1,53 @@
+export const GALLERY_LAYOUTS = ["carousel", "grid", "masonry", "justified"] as const;
+
+export type GalleryLayout = (typeof GALLERY_LAYOUTS)[number];
+
+export interface GalleryOptions {
+	layout: Exclude<GalleryLayout, "carousel">;
+	/** Tiles per row for `grid`, columns for `masonry`. */
+	columns: number;
+	/** Space between tiles, as a CSS length. */
+	gap: string;
+	/** Height every row of a `justified` gallery is fitted to, as a CSS length. */
+	rowHeight: string;
+	/** Width of the whole gallery, as a CSS length. */
+	width: string;
+}
+
+/**
+ * Creates the element that holds the tiles of a gallery. The layouts are done in CSS: `grid` is
+ * a grid of square tiles, `masonry` stacks tiles at their own height in columns, and `justified`
+ * fills rows edge to edge, sizing each tile by the aspect ratio set with {@link fitTileToMedia}.
+ * @param containerEl - Where to add the gallery.
+ * @param options - Layout and spacing.
+ * @returns The gallery element; add tiles to it with the `ms-gallery-tile` class.
+ */
+export function createGallery(containerEl: HTMLElement, options: GalleryOptions): HTMLElement {
+	const galleryEl = containerEl.createDiv(`ms-gallery ms-gallery-${options.layout}`);
+	galleryEl.style.setProperty("--ms-gallery-columns", String(Math.max(1, Math.round(options.columns))));
+	galleryEl.style.setProperty("--ms-gallery-gap", options.gap);
+	galleryEl.style.setProperty("--ms-gallery-row-height", options.rowHeight);
+	galleryEl.style.setProperty("--ms-gallery-width", options.width);
+	return galleryEl;
+}
+
+/**
+ * Gives a tile the aspect ratio of its image or video once that is known, so justified rows
+ * can size it. Until then the tile is square.
+ * @param tileEl - The tile.
+ * @param mediaEl - The image or video shown in the tile.
+ */
+export function fitTileToMedia(tileEl: HTMLElement, mediaEl: HTMLImageElement | HTMLVideoElement): void {
+	const apply = () => {
+		const width = mediaEl instanceof HTMLVideoElement ? mediaEl.videoWidth : mediaEl.naturalWidth;
+		const height = mediaEl instanceof HTMLVideoElement ? mediaEl.videoHeight : mediaEl.naturalHeight;
+		if (width > 0 && height > 0) tileEl.style.setProperty("--ms-tile-ratio", String(width / height));
+	};
+	if (mediaEl instanceof HTMLVideoElement) {
+		mediaEl.addEventListener("loadedmetadata", apply, { once: true });
+	} else if (mediaEl.complete) {
+		apply();
+	} else {
+		mediaEl.addEventListener("load", apply, { once: true });
+	}
+}
@@ -0,0 +1,443 @@
+/** What is known about a photo, from its EXIF, XMP and IPTC data and its image header. */
+export interface ImageMetadata {
+	/** Pixel size, upright: swapped for photos whose EXIF orientation turns them sideways. */
+	width?: number;
+	height?: number;
+	/** Capture date as `YYYY-MM-DD HH:MM`, or just the date when that is all there is. */
+	date?: string;
+	camera?: string;
+	lens?: string;
+	/** Exposure time, e.g. `1/250 s`. */
+	exposure?: string;
+	/** F-number, e.g. `f/2.8`. */
+	aperture?: string;
+	iso?: number;
+	/** Focal length, e.g. `35 mm`. */
+	focalLength?: string;
+	title?: string;
+	description?: string;
+	creator?: string;
+	copyright?: string;
+	keywords?: string[];
+	/** GPS position as `latitude, longitude` in degrees. */
+	location?: string;
+	/** EXIF orientation, 1 to 8. */
+	orientation?: number;
+}
+
+type TagValue = string | number | number[];
+
+/** EXIF tags read from the TIFF structure, by tag number. */
+type TiffTags = Map<number, TagValue>;
+
+const TAG = {
+	description: 0x010e,
+	make: 0x010f,
+	model: 0x0110,
+	orientation: 0x0112,
+	dateTime: 0x0132,
+	artist: 0x013b,
+	copyright: 0x8298,
+	exifIfd: 0x8769,
+	gpsIfd: 0x8825,
+	exposureTime: 0x829a,
+	fNumber: 0x829d,
+	iso: 0x8827,
+	dateTimeOriginal: 0x9003,
+	focalLength: 0x920a,
+	pixelWidth: 0xa002,
+	pixelHeight: 0xa003,
+	lensModel: 0xa434
+} as const;
+
+// GPS tags live in their own IFD with small numbers, so they are stored offset to stay apart.
+const GPS_OFFSET = 0x10000;
+const GPS = { latRef: GPS_OFFSET + 1, lat: GPS_OFFSET + 2, lonRef: GPS_OFFSET + 3, lon: GPS_OFFSET + 4 } as const;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const decodeText = (bytes: Uint8Array): string => new TextDecoder("utf-8").decode(bytes).replace(/\0+$/, "").trim();
+const latin1 = (bytes: Uint8Array, start: number, length: number): string =>
+	String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+/**
+ * Reads the tags of IFD0, the EXIF IFD and the GPS IFD from a TIFF structure, as embedded in
+ * JPEG APP1 segments, PNG `eXIf` chunks and WebP `EXIF` chunks.
+ */
+function readTiff(bytes: Uint8Array): TiffTags {
+	const tags: TiffTags = new Map();
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const little = latin1(bytes, 0, 2) === "II";
+	if (!little && latin1(bytes, 0, 2) !== "MM") return tags;
+	const u16 = (offset: number) => view.getUint16(offset, little);
+	const u32 = (offset: number) => view.getUint32(offset, little);
+
+	const readValue = (type: number, count: number, offset: number): TagValue | null => {
+		if (type === 2) return decodeText(bytes.subarray(offset, offset + count));
+		const values: number[] = [];
+		for (let i = 0; i < Math.min(count, 16); i++) {
+			const at = offset + i * TYPE_SIZES[type];
+			if (type === 1 || type === 7) values.push(bytes[at]);
+			else if (type === 3) values.push(u16(at));
+			else if (type === 4) values.push(u32(at));
+			else if (type === 9) values.push(view.getInt32(at, little));
+			else if (type === 5) values.push(u32(at) / (u32(at + 4) || 1));
+			else if (type === 10) values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1));
+			else return null;
+		}
+		return values.length === 1 ? values[0] : values;
+	};
+
+	const readIfd = (start: number, tagOffset: number) => {
+		if (start <= 0 || start + 2 > bytes.length) return;
+		const count = u16(start);
+		for (let i = 0; i < count; i++) {
+			const entry = start + 2 + i * 12;
+			if (entry + 12 > bytes.length) break;
+			const type = u16(entry + 2);
+			const valueCount = u32(entry + 4);
+			const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+			if (size === 0) continue;
+			const valueOffset = size <= 4 ? entry + 8 : u32(entry + 8);
+			if (valueOffset + size > bytes.length) continue;
+			const value = readValue(type, valueCount, valueOffset);
+			if (value !== null) tags.set(tagOffset + u16(entry), value);
+		}
+	};
+
+	readIfd(u32(4), 0);
+	const exifIfd = tags.get(TAG.exifIfd);
+	if (typeof exifIfd === "number") readIfd(exifIfd, 0);
+	const gpsIfd = tags.get(TAG.gpsIfd);
+	if (typeof gpsIfd === "number") readIfd(gpsIfd, GPS_OFFSET);
+	return tags;
+}
+
+/**
+ * Reads one property from an XMP packet, written either as an attribute or as an element; lists
+ * (`rdf:Seq`, `rdf:Bag`, `rdf:Alt`) give all their items.
+ */
+function readXmp(xmp: string, name: string): string[] {
+	const attribute = xmp.match(new RegExp(`\\s${name}="([^"]*)"`));
+	if (attribute) return [unescapeXml(attribute[1])];
+	const element = xmp.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+	if (!element) return [];
+	const items = Array.from(element[1].match(/<rdf:li(?:\s[^>]*)?>[\s\S]*?<\/rdf:li>/g) ?? [])
+		.map(item => item.replace(/<[^>]+>/g, ""));
+	return (items.length > 0 ? items : [element[1].replace(/<[^>]+>/g, "")])
+		.map(value => unescapeXml(value).trim())
+		.filter(value => value.length > 0);
+}
+
+const unescapeXml = (text: string): string => text
+	.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, "\"").replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+
+/** Reads IPTC-IIM datasets of record 2 (application data), by dataset number. */
+function readIptc(bytes: Uint8Array): Map<number, string[]> {
+	const datasets = new Map<number, string[]>();
+	let offset = 0;
+	while (offset + 5 <= bytes.length) {
+		if (bytes[offset] !== 0x1c) {
+			offset++;
+			continue;
+		}
+		const record = bytes[offset + 1];
+		const dataset = bytes[offset + 2];
+		const size = (bytes[offset + 3] << 8) | bytes[offset + 4];
+		const start = offset + 5;
+		if (record === 2) {
+			const values = datasets.get(dataset) ?? [];
+			values.push(decodeText(bytes.subarray(start, start + size)));
+			datasets.set(dataset, values);
+		}
+		offset = start + size;
+	}
+	return datasets;
+}
+
+/** Finds the IPTC block in a Photoshop image resource block (JPEG APP13). */
+function findIptcResource(bytes: Uint8Array): Uint8Array | null {
+	let offset = 0;
+	while (offset + 12 <= bytes.length && latin1(bytes, offset, 4) === "8BIM") {
+		const id = (bytes[offset + 4] << 8) | bytes[offset + 5];
+		// The resource name is a Pascal string padded to an even length.
+		const nameLength = bytes[offset + 6];
+		let cursor = offset + 6 + nameLength + 1;
+		if (cursor % 2 !== 0) cursor++;
+		const size = ((bytes[cursor] << 24) | (bytes[cursor + 1] << 16) | (bytes[cursor + 2] << 8) | bytes[cursor + 3]) >>> 0;
+		const start = cursor + 4;
+		if (id === 0x0404) return bytes.subarray(start, start + size);
+		offset = start + size + (size % 2);
+	}
+	return null;
+}
+
+interface RawMetadata {
+	tiff: TiffTags;
+	xmp: string;
+	iptc: Map<number, string[]>;
+	width?: number;
+	height?: number;
+}
+
+function readJpeg(bytes: Uint8Array, raw: RawMetadata): void {
+	let offset = 2;
+	while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+		const marker = bytes[offset + 1];
+		// Start of scan: the image data follows, with no more metadata.
+		if (marker === 0xda) break;
+		const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+		const start = offset + 4;
+		const segment = bytes.subarray(start, start + length - 2);
+		if (marker === 0xe1 && latin1(segment, 0, 6) === "Exif\0\0") {
+			raw.tiff = readTiff(segment.subarray(6));
+		} else if (marker === 0xe1 && latin1(segment, 0, 29) === "http://ns.adobe.com/xap/1.0/\0") {
+			raw.xmp = decodeText(segment.subarray(29));
+		} else if (marker === 0xed && latin1(segment, 0, 14) === "Photoshop 3.0\0") {
+			const iptc = findIptcResource(segment.subarray(14));
+			if (iptc) raw.iptc = readIptc(iptc);
+		} else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			// Start of frame: precision, then height and width.
+			raw.height = (segment[1] << 8) | segment[2];
+			raw.width = (segment[3] << 8) | segment[4];
+		}
+		offset = start + length - 2;
+	}
+}
+
+function readPng(bytes: Uint8Array, raw: RawMetadata): void {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let offset = 8;
+	while (offset + 8 <= bytes.length) {
+		const length = view.getUint32(offset);
+		const type = latin1(bytes, offset + 4, 4);
+		const data = bytes.subarray(offset + 8, offset + 8 + length);
+		if (type === "IHDR") {
+			raw.width = view.getUint32(offset + 8);
+			raw.height = view.getUint32(offset + 12);
+		} else if (type === "eXIf") {
+			raw.tiff = readTiff(data);
+		} else if (type === "iTXt" && latin1(data, 0, 18) === "XML:com.adobe.xmp\0" && data[18] === 0) {
+			// Keyword, compression flag and method, then language tag and translated keyword.
+			let cursor = 20;
+			for (let nulls = 0; nulls < 2 && cursor < data.length; cursor++) {
+				if (data[cursor] === 0) nulls++;
+			}
+			raw.xmp = decodeText(data.subarray(cursor));
+		} else if (type === "IEND") {
+			break;
+		}
+		offset += 12 + length;
+	}
+}
+
+function readWebp(bytes: Uint8Array, raw: RawMetadata): void {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let offset = 12;
+	while (offset + 8 <= bytes.length) {
+		const type = latin1(bytes, offset, 4);
+		const size = view.getUint32(offset + 4, true);
+		const data = bytes.subarray(offset + 8, offset + 8 + size);
+		const u24 = (at: number) => data[at] | (data[at + 1] << 8) | (data[at + 2] << 16);
+		if (type === "VP8X") {
+			raw.width = u24(4) + 1;
+			raw.height = u24(7) + 1;
+		} else if (type === "VP8 " && raw.width === undefined) {
+			raw.width = (data[6] | (data[7] << 8)) & 0x3fff;
+			raw.height = (data[8] | (data[9] << 8)) & 0x3fff;
+		} else if (type === "VP8L" && raw.width === undefined) {
+			const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+			raw.width = (bits & 0x3fff) + 1;
+			raw.height = ((bits >> 14) & 0x3fff) + 1;
+		} else if (type === "EXIF") {
+			raw.tiff = readTiff(latin1(data, 0, 6) === "Exif\0\0" ? data.subarray(6) : data);
+		} else if (type === "XMP ") {
+			raw.xmp = decodeText(data);
+		}
+		offset += 8 + size + (size % 2);
+	}
+}
+
+/** Turns `2024:05:01 14:03:22` (EXIF), `2024-05-01T14:03:22` (XMP) or `20240501` (IPTC) into `2024-05-01 14:03`. */
+function formatDate(value: string): string | undefined {
+	const match = value.match(/^(\d{4})[:-]?(\d{2})[:-]?(\d{2})(?:[ T](\d{2}):(\d{2}))?/);
+	if (!match || match[1] === "0000") return undefined;
+	const date = `${match[1]}-${match[2]}-${match[3]}`;
+	return match[4] ? `${date} ${match[4]}:${match[5]}` : date;
+}
+
+/** Reads an XMP rational such as `28/10`. */
+const parseRational = (value: string | undefined): number | undefined => {
+	if (!value) return undefined;
+	const [numerator, denominator] = value.split("/").map(Number);
+	const result = denominator ? numerator / denominator : numerator;
+	return isFinite(result) ? result : undefined;
+};
+
+const formatExposure = (seconds: number): string =>
+	seconds > 0 && seconds < 1 ? `1/${Math.round(1 / seconds)} s` : `${Math.round(seconds * 10) / 10} s`;
+
+const toDegrees = (value: TagValue | undefined, ref: TagValue | undefined): number | undefined => {
+	if (!Array.isArray(value) || value.length < 3) return undefined;
+	const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+	return ref === "S" || ref === "W" ? -degrees : degrees;
+};
+
+/**
+ * Reads the metadata of a JPEG, PNG or WebP image: EXIF (camera, lens, exposure, capture date,
+ * GPS), XMP and IPTC (title, description, creator, copyright, keywords) and its pixel size.
+ * Values from EXIF win over XMP, which wins over IPTC.
+ * @param data - The image file.
+ * @returns What was found; an unreadable or unknown file gives an empty object.
+ */
+export function readImageMetadata(data: ArrayBuffer): ImageMetadata {
+	const bytes = new Uint8Array(data);
+	const raw: RawMetadata = { tiff: new Map(), xmp: "", iptc: new Map() };
+	try {
+		if (bytes[0] === 0xff && bytes[1] === 0xd8) readJpeg(bytes, raw);
+		else if (latin1(bytes, 1, 3) === "PNG") readPng(bytes, raw);
+		else if (latin1(bytes, 0, 4) === "RIFF" && latin1(bytes, 8, 4) === "WEBP") readWebp(bytes, raw);
+	} catch (error) {
+		// Damaged metadata: keep whatever was read before the damage.
+		console.warn("Media Slider: could not read all image metadata:", error);
+	}
+
+	const { tiff, xmp, iptc } = raw;
+	const text = (tag: number) => {
+		const value = tiff.get(tag);
+		return typeof value === "string" && value.length > 0 ? value : undefined;
+	};
+	const number = (tag: number) => {
+		const value = tiff.get(tag);
+		const first = Array.isArray(value) ? value[0] : value;
+		return typeof first === "number" && isFinite(first) && first > 0 ? first : undefined;
+	};
+	const xmpFirst = (...names: string[]) => names.map(name => readXmp(xmp, name)[0]).find(value => value);
+	const iptcFirst = (dataset: number) => iptc.get(dataset)?.find(value => value);
+
+	const metadata: ImageMetadata = {};
+	const orientation = number(TAG.orientation);
+	if (orientation) metadata.orientation = orientation;
+	const width = raw.width ?? number(TAG.pixelWidth);
+	const height = raw.height ?? number(TAG.pixelHeight);
+	if (width && height) {
+		const sideways = orientation !== undefined && orientation >= 5;
+		metadata.width = sideways ? height : width;
+		metadata.height = sideways ? width : height;
+	}
+
+	const date = text(TAG.dateTimeOriginal) ?? xmpFirst("exif:DateTimeOriginal", "photoshop:DateCreated", "xmp:CreateDate")
+		?? iptcFirst(55) ?? text(TAG.dateTime);
+	if (date) metadata.date = formatDate(date);
+
+	const make = text(TAG.make) ?? xmpFirst("tiff:Make");
+	const model = text(TAG.model) ?? xmpFirst("tiff:Model");
+	// Models usually repeat the maker, e.g. "Canon" and "Canon EOS R5".
+	if (make || model) metadata.camera = model && make && !model.toLowerCase().startsWith(make.toLowerCase().split(" ")[0])
+		? `${make} ${model}`
+		: model ?? make;
+	metadata.lens = text(TAG.lensModel) ?? xmpFirst("exifEX:LensModel", "aux:Lens");
+
+	const exposure = number(TAG.exposureTime) ?? parseRational(xmpFirst("exif:ExposureTime"));
+	if (exposure) metadata.exposure = formatExposure(exposure);
+	const fNumber = number(TAG.fNumber) ?? parseRational(xmpFirst("exif:FNumber"));
+	if (fNumber) metadata.aperture = `f/${Math.round(fNumber * 10) / 10}`;
+	const iso = number(TAG.iso) ?? parseRational(xmpFirst("exif:ISOSpeedRatings", "exifEX:PhotographicSensitivity"));
+	if (iso) metadata.iso = Math.round(iso);
+	const focalLength = number(TAG.focalLength) ?? parseRational(xmpFirst("exif:FocalLength"));
+	if (focalLength) metadata.focalLength = `${Math.round(focalLength * 10) / 10} mm`;
+
+	metadata.title = xmpFirst("dc:title") ?? iptcFirst(5);
+	metadata.description = xmpFirst("dc:description") ?? iptcFirst(120) ?? text(TAG.description);
+	metadata.creator = text(TAG.artist) ?? xmpFirst("dc:creator") ?? iptcFirst(80);
+	metadata.copyright = text(TAG.copyright) ?? xmpFirst("dc:rights") ?? iptcFirst(116);
+	const keywords = xmp ? readXmp(xmp, "dc:subject") : [];
+	const allKeywords = keywords.length > 0 ? keywords : iptc.get(25) ?? [];
+	if (allKeywords.length > 0) metadata.keywords = allKeywords;
+
+	const latitude = toDegrees(tiff.get(GPS.lat), tiff.get(GPS.latRef));
+	const longitude = toDegrees(tiff.get(GPS.lon), tiff.get(GPS.lonRef));
+	if (latitude !== undefined && longitude !== undefined) {
+		metadata.location = `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+	}
+
+	for (const key of Object.keys(metadata) as (keyof ImageMetadata)[]) {
+		if (metadata[key] === undefined) delete metadata[key];
+	}
+	return metadata;
+}
+
+/** Labels of the fields, in the order the info panel lists them. */
+export const METADATA_LABELS: [keyof ImageMetadata, string][] = [
+	["title", "Title"],
+	["date", "Taken"],
+	["camera", "Camera"],
+	["lens", "Lens"],
+	["exposure", "Exposure"],
+	["aperture", "Aperture"],
+	["iso", "ISO"],
+	["focalLength", "Focal length"],
+	["location", "Location"],
+	["creator", "Creator"],
+	["copyright", "Copyright"],
+	["description", "Description"],
+	["keywords", "Keywords"]
+];
+
+/**
+ * Formats a file size for display.
+ * @param bytes - Size in bytes.
+ */
+export function formatFileSize(bytes: number): string {
+	if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+	if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+	return `${bytes} B`;
+}
+
+/**
+ * The values a caption can use as `{name}`: every metadata field, plus `dimensions`, `size`,
+ * `filename` and `name` (the file name without extension).
+ * @param metadata - The image's metadata.
+ * @param file - Name and size of the image file.
+ */
+export function captionVariables(metadata: ImageMetadata, file: { name: string; basename: string; size: number }): Record<string, string> {
+	const variables: Record<string, string> = {
+		filename: file.name,
+		name: file.basename,
+		size: formatFileSize(file.size)
+	};
+	if (metadata.width && metadata.height) variables.dimensions = `${metadata.width}×${metadata.height}`;
+	for (const [key, value] of Object.entries(metadata)) {
+		if (value !== undefined) variables[key] = Array.isArray(value) ? value.join(", ") : String(value);
+	}
+	return variables;
+}
+
+/** Names a caption may use as variables; other text in braces is left alone. */
+export const CAPTION_VARIABLES = [
+	"filename", "name", "size", "dimensions", "width", "height",
+	...METADATA_LABELS.map(([key]) => key)
+];
+
+/** Whether a caption uses any variable, and so needs the image's metadata. */
+export function hasCaptionVariables(caption: string): boolean {
+	return Array.from(caption.match(/\{(\w+)\}/g) ?? []).some(match => CAPTION_VARIABLES.includes(match.slice(1, -1)));
+}
+
+/**
+ * Fills the variables of a caption, e.g. `{camera}, {exposure} at {aperture}`. Variables the
+ * image has no value for are left out, along with the separators around them.
+ * @param caption - The caption as written.
+ * @param variables - Values by name, from {@link captionVariables}.
+ */
+export function fillCaption(caption: string, variables: Record<string, string>): string {
+	return caption
+		.replace(/\{(\w+)\}/g, (match, name: string) =>
+			CAPTION_VARIABLES.includes(name) ? variables[name] ?? "" : match)
+		// A run of separators left by empty variables keeps only its last, e.g. `Canon, - 2024`.
+		.replace(/(\s*[,;·|–-])+(\s*)/g, "$1$2")
+		.replace(/\s*[,;·|–-]\s*$/, "")
+		.replace(/^\s*[,;·|–-]\s*/, "")
+		.replace(/\s{2,}/g, " ")
+		.trim();
+}
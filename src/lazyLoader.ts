@@ -0,0 +1,60 @@
+export interface LazyLoaderOptions {
+	/**
+	 * Fills an element that came near the view. `isCurrent` turns false once the element is
+	 * unloaded again, so a slow load can stop before touching it.
+	 */
+	load: (el: HTMLElement, isCurrent: () => boolean) => void | Promise<void>;
+	/** Empties an element that went far out of view. */
+	unload: (el: HTMLElement) => void;
+	/** How far outside the view elements are loaded, as an IntersectionObserver root margin. */
+	margin?: string;
+}
+
+/**
+ * Loads the content of many elements only while they are in or near view of a scrolling
+ * container, and drops it again when they move far away, so long lists stay cheap to render
+ * and to keep in memory.
+ */
+export class LazyLoader {
+	private observer: IntersectionObserver;
+	private options: LazyLoaderOptions;
+	/** Bumped whenever an element is loaded or unloaded; the value is odd while it is loaded. */
+	private states = new WeakMap<Element, number>();
+
+	/**
+	 * @param root - The scrolling container, or null for the viewport.
+	 * @param options - How to fill and empty the elements.
+	 */
+	constructor(root: HTMLElement | null, options: LazyLoaderOptions) {
+		this.options = options;
+		this.observer = new IntersectionObserver(entries => this.update(entries), {
+			root,
+			rootMargin: options.margin ?? "100%"
+		});
+	}
+
+	observe(el: HTMLElement): void {
+		this.observer.observe(el);
+	}
+
+	disconnect(): void {
+		this.observer.disconnect();
+	}
+
+	private update(entries: IntersectionObserverEntry[]): void {
+		for (const entry of entries) {
+			const el = entry.target as HTMLElement;
+			const state = this.states.get(el) ?? 0;
+			const loaded = state % 2 === 1;
+			if (entry.isIntersecting === loaded) continue;
+
+			this.states.set(el, state + 1);
+			if (entry.isIntersecting) {
+				const isCurrent = () => this.states.get(el) === state + 1;
+				Promise.resolve(this.options.load(el, isCurrent)).catch(error => console.error("Failed to load:", error));
+			} else {
+				this.options.unload(el);
+			}
+		}
+	}
+}
@@ -0,0 +1,69 @@
+import { setIcon } from "obsidian";
+
+/**
+ * Shows an element as a full-window overlay. While open the element is moved to the document
+ * body, so the note's scroll containers cannot clip it, and is put back where it was on close.
+ * Escape, the close button and a click on the backdrop close it.
+ */
+export class Lightbox {
+	private el: HTMLElement;
+	private onClose: () => void;
+	private placeholder: Comment = document.createComment("media-slider lightbox");
+	private open = false;
+
+	/**
+	 * @param el - The element to show; it gets the `ms-lightbox` class and is hidden until opened.
+	 * @param onClose - Called after the lightbox closed.
+	 */
+	constructor(el: HTMLElement, onClose: () => void) {
+		this.el = el;
+		this.onClose = onClose;
+		el.addClass("ms-lightbox");
+
+		const closeBtn = el.createEl("button", { cls: "ms-lightbox-close", attr: { "aria-label": "Close" } });
+		setIcon(closeBtn, "x");
+		closeBtn.onclick = evt => {
+			evt.stopPropagation();
+			this.close();
+		};
+		el.addEventListener("click", evt => {
+			if (evt.target === el) this.close();
+		});
+	}
+
+	get isOpen(): boolean {
+		return this.open;
+	}
+
+	show(): void {
+		if (this.open) return;
+		this.open = true;
+		this.el.parentNode?.insertBefore(this.placeholder, this.el);
+		document.body.appendChild(this.el);
+		this.el.addClass("is-open");
+		document.addEventListener("keydown", this.onKeydown, true);
+	}
+
+	close(): void {
+		if (!this.open) return;
+		this.open = false;
+		document.removeEventListener("keydown", this.onKeydown, true);
+		if (document.fullscreenElement === this.el) void document.exitFullscreen();
+		this.el.removeClass("is-open");
+		if (this.placeholder.parentNode) {
+			this.placeholder.replaceWith(this.el);
+		} else {
+			this.el.remove();
+		}
+		this.onClose();
+	}
+
+	private onKeydown = (evt: KeyboardEvent) => {
+		if (evt.key !== "Escape" || document.fullscreenElement) return;
+		// Escape in a text field, such as the notes box, only leaves the field.
+		if (evt.target instanceof HTMLElement && evt.target.matches("input, textarea")) return;
+		evt.preventDefault();
+		evt.stopPropagation();
+		this.close();
+	};
+}
@@ -118,6 +118,27 @@ export class NotesManager {
 		}
 	}
 
+	// Moves notes to new keys after a media file is renamed, so cleanup does not treat them as orphaned.
+	async renameKeys(rewriteKey: (key: string) => string | null): Promise<void> {
+		try {
+			let hasChanges = false;
+			for (const key of Object.keys(this.data)) {
+				const newKey = rewriteKey(key);
+				if (newKey !== null && newKey !== key && typeof this.data[key] === "string") {
+					this.data[newKey] = this.data[key];
+					delete this.data[key];
+					hasChanges = true;
+				}
+			}
+			if (hasChanges) {
+				await this.save();
+			}
+		} catch (error) {
+			console.error("Error renaming notes:", error);
+			throw error;
+		}
+	}
+
 	// Add method to clear all notes (useful for debugging or reset)
 	async clearAllNotes(): Promise<void> {
 		try {
@@ -0,0 +1,127 @@
+export type PathMatcher = (relativePath: string, fullPath: string) => boolean;
+
+const REGEX_LITERAL = /^\/(.+)\/([gimsuy]*)$/;
+
+const globToRegExp = (glob: string): RegExp => {
+	let pattern = "";
+	let inBraces = false;
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === "\\" && i + 1 < glob.length) {
+			// A backslash makes the next character literal; vault paths never contain one.
+			pattern += glob[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		} else if (char === "*") {
+			if (glob[i + 1] === "*") {
+				if (glob[i + 2] === "/") {
+					// "**/" matches zero or more whole directories.
+					pattern += "(?:.*/)?";
+					i += 2;
+				} else {
+					pattern += ".*";
+					i += 1;
+				}
+			} else {
+				pattern += "[^/]*";
+			}
+		} else if (char === "?") {
+			pattern += "[^/]";
+		} else if (char === "{") {
+			inBraces = true;
+			pattern += "(?:";
+		} else if (char === "}" && inBraces) {
+			inBraces = false;
+			pattern += ")";
+		} else if (char === "," && inBraces) {
+			pattern += "|";
+		} else {
+			pattern += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${pattern}$`, "i");
+};
+
+/**
+ * Escapes the characters a glob treats specially, so the result matches the path literally.
+ * @param path - A file name or path.
+ */
+export function escapeGlob(path: string): string {
+	return path.replace(/[*?{},\\]/g, "\\$&");
+}
+
+/**
+ * Describes why a pattern cannot be used, for the settings validator.
+ * @param pattern - A glob, or a regex written as `/source/flags`, optionally prefixed with `!`.
+ * @returns An error message, or null when the pattern compiles.
+ */
+export function checkPathPattern(pattern: string): string | null {
+	const body = pattern.startsWith("!") ? pattern.slice(1) : pattern;
+	if (!body.trim()) {
+		return "Empty pattern.";
+	}
+	const regexMatch = body.match(REGEX_LITERAL);
+	if (regexMatch) {
+		try {
+			new RegExp(regexMatch[1], regexMatch[2]);
+		} catch (error) {
+			return `Invalid regular expression: ${error.message}`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Compiles one include/exclude pattern. Regexes (`/source/flags`) are tested against the full
+ * vault path. Globs are tested against the path relative to the folder source, and globs without
+ * a `/` against the file name alone so that `final-*.png` matches at any depth.
+ * @param pattern - The pattern without its `!` prefix.
+ * @returns The matcher, or null when the pattern is invalid.
+ */
+const compilePattern = (pattern: string): PathMatcher | null => {
+	const regexMatch = pattern.match(REGEX_LITERAL);
+	if (regexMatch) {
+		try {
+			const regex = new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ""));
+			return (_relativePath, fullPath) => regex.test(fullPath);
+		} catch (error) {
+			console.warn(`[Media Slider] Ignoring invalid pattern ${pattern}:`, error);
+			return null;
+		}
+	}
+
+	const regex = globToRegExp(pattern.replace(/^\.?\//, ""));
+	if (!pattern.includes("/")) {
+		return relativePath => regex.test(relativePath.substring(relativePath.lastIndexOf("/") + 1));
+	}
+	return relativePath => regex.test(relativePath);
+};
+
+/**
+ * Builds a filter from `include` and `exclude` pattern lists. A file is kept when it matches at
+ * least one include pattern (or there are none) and no exclude pattern. A `!` prefix inverts a
+ * pattern: `!drafts/**` in `include` drops drafts, and in `exclude` it rescues them.
+ * @param include - Patterns a file must match.
+ * @param exclude - Patterns that remove a file.
+ * @returns A predicate over (path relative to the folder, full vault path).
+ */
+export function createPathFilter(include: string[] | null, exclude: string[] | null): PathMatcher {
+	const positiveIncludes: PathMatcher[] = [];
+	const excludes: PathMatcher[] = [];
+	const rescues: PathMatcher[] = [];
+
+	for (const pattern of include ?? []) {
+		const negated = pattern.startsWith("!");
+		const matcher = compilePattern(negated ? pattern.slice(1) : pattern);
+		if (matcher) (negated ? excludes : positiveIncludes).push(matcher);
+	}
+	for (const pattern of exclude ?? []) {
+		const negated = pattern.startsWith("!");
+		const matcher = compilePattern(negated ? pattern.slice(1) : pattern);
+		if (matcher) (negated ? rescues : excludes).push(matcher);
+	}
+
+	return (relativePath, fullPath) => {
+		const matches = (matcher: PathMatcher) => matcher(relativePath, fullPath);
+		if (positiveIncludes.length > 0 && !positiveIncludes.some(matches)) return false;
+		return !excludes.some(matches) || rescues.some(matches);
+	};
+}
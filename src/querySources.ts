@@ -0,0 +1,188 @@
+import { App, CachedMetadata, TFile, getAllTags, getLinkpath } from "obsidian";
+
+export interface MediaQueryResult {
+	files: TFile[];
+	/** Paths of the notes the files were taken from. */
+	notes: string[];
+	/** Set when the query is well-formed but cannot be resolved, e.g. the named note does not exist. */
+	error?: string;
+}
+
+const QUERY_PATTERN = /^(tag|property|linked-from|embedded-in):\s*(.+)$/i;
+
+const stripLink = (target: string): string => {
+	const wikiMatch = target.match(/^!?\[\[(.*?)(?:\|.*)?\]\]$/);
+	return (wikiMatch ? wikiMatch[1] : target).trim();
+};
+
+const normalizeTag = (tag: string): string => `#${tag.trim().replace(/^#/, "")}`.toLowerCase();
+
+const matchesProperty = (value: unknown, expected: string | null): boolean => {
+	if (value === undefined) return false;
+	if (expected === null) return true;
+	if (Array.isArray(value)) return value.some(item => matchesProperty(item, expected));
+	if (value === null || typeof value === "object") return false;
+	return String(value).toLowerCase() === expected.toLowerCase() || stripLink(String(value)) === expected;
+};
+
+/**
+ * Tells whether a source line is a query such as `tag:#moodboard` rather than a media entry.
+ */
+export function isMediaQuery(line: string): boolean {
+	return QUERY_PATTERN.test(line.trim());
+}
+
+/**
+ * Collects the files a note links to, in document order. Frontmatter links come first.
+ * @param embedsOnly - Skip plain links and keep `![[...]]` embeds only.
+ */
+const collectLinkedFiles = (app: App, note: TFile, cache: CachedMetadata, embedsOnly: boolean): TFile[] => {
+	const references = [...(cache.embeds ?? []), ...(embedsOnly ? [] : cache.links ?? [])].sort(
+		(a, b) => a.position.start.offset - b.position.start.offset
+	);
+	const links = [
+		...(embedsOnly ? [] : (cache.frontmatterLinks ?? []).map(ref => ref.link)),
+		...references.map(ref => ref.link)
+	];
+
+	const files: TFile[] = [];
+	for (const link of links) {
+		const file = app.metadataCache.getFirstLinkpathDest(getLinkpath(link), note.path);
+		if (file) files.push(file);
+	}
+	return files;
+};
+
+interface ParsedQuery {
+	/** Tells whether a note is one the query takes its media from. */
+	matches: (note: TFile) => boolean;
+	/** For `linked-from` and `embedded-in`, the one note named; null when it does not exist. */
+	note?: TFile | null;
+	embedsOnly: boolean;
+	error?: string;
+}
+
+const parseQuery = (app: App, line: string, sourcePath: string): ParsedQuery | null => {
+	const match = line.trim().match(QUERY_PATTERN);
+	if (!match) return null;
+
+	const kind = match[1].toLowerCase();
+	const argument = match[2].trim();
+
+	if (kind === "tag") {
+		const tag = normalizeTag(argument);
+		return {
+			matches: note => {
+				const cache = app.metadataCache.getFileCache(note);
+				const tags = cache ? getAllTags(cache) ?? [] : [];
+				return tags.some(noteTag => {
+					const normalized = noteTag.toLowerCase();
+					return normalized === tag || normalized.startsWith(`${tag}/`);
+				});
+			},
+			embedsOnly: false
+		};
+	}
+	if (kind === "property") {
+		const separator = argument.indexOf("=");
+		const key = (separator === -1 ? argument : argument.substring(0, separator)).trim();
+		const expected = separator === -1 ? null : argument.substring(separator + 1).trim().replace(/^["']|["']$/g, "");
+		if (!key) {
+			return { matches: () => false, embedsOnly: false, error: `Missing property name in "${line.trim()}".` };
+		}
+		return {
+			matches: note => {
+				const frontmatter = app.metadataCache.getFileCache(note)?.frontmatter;
+				return !!frontmatter && matchesProperty(frontmatter[key], expected);
+			},
+			embedsOnly: false
+		};
+	}
+
+	const linkpath = getLinkpath(stripLink(argument));
+	const note = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+	return {
+		// Resolved again on each call, so a note created under that name later also counts.
+		matches: candidate => app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path === candidate.path,
+		note,
+		embedsOnly: kind === "embedded-in",
+		error: note ? undefined : `Note "${linkpath}" not found.`
+	};
+};
+
+/**
+ * Resolves a query source line such as `tag:#moodboard`, `property:status=approved`,
+ * `linked-from:[[Project X]]` or `embedded-in:[[Trip 2025]]` to the media files it refers to.
+ * Tag and property queries gather the links and embeds of every matching note; `linked-from`
+ * takes both from one note and `embedded-in` only its embeds.
+ * @param app - The Obsidian app, for the vault and metadata cache.
+ * @param line - One source line of the code block.
+ * @param sourcePath - Path of the note holding the slider, used to resolve relative links.
+ * @param accepts - Filter for the resolved files, e.g. by media extension.
+ * @returns The matching files without duplicates, or null if the line is not a query.
+ */
+export function resolveMediaQuery(
+	app: App,
+	line: string,
+	sourcePath: string,
+	accepts: (file: TFile) => boolean
+): MediaQueryResult | null {
+	const query = parseQuery(app, line, sourcePath);
+	if (!query) return null;
+	if (query.error) return { files: [], notes: [], error: query.error };
+
+	const notes = query.note ? [query.note] : app.vault.getMarkdownFiles().filter(query.matches);
+	const seen = new Set<string>();
+	const files: TFile[] = [];
+	for (const note of notes.sort((a, b) => a.path.localeCompare(b.path))) {
+		const cache = app.metadataCache.getFileCache(note);
+		if (!cache) continue;
+		for (const file of collectLinkedFiles(app, note, cache, query.embedsOnly)) {
+			if (!seen.has(file.path) && accepts(file)) {
+				seen.add(file.path);
+				files.push(file);
+			}
+		}
+	}
+	return { files, notes: notes.map(note => note.path) };
+}
+
+/**
+ * Tells whether a query line would take media from a note, without resolving the whole query.
+ * Used to skip metadata changes of unrelated notes.
+ * @param line - One source line of the code block.
+ * @param sourcePath - Path of the note holding the slider.
+ * @param note - The note whose metadata changed.
+ */
+export function queryMatchesNote(app: App, line: string, sourcePath: string, note: TFile): boolean {
+	return parseQuery(app, line, sourcePath)?.matches(note) ?? false;
+}
+
+/**
+ * Lists the media embedded in a note, in document order, for `source: self` sliders.
+ * @param app - The Obsidian app, for the metadata cache.
+ * @param sourcePath - Path of the note holding the slider.
+ * @param skipLines - Line range of the slider's own code block, whose embeds are left out.
+ * @param accepts - Filter for the resolved files, e.g. by media extension.
+ * @returns The embedded files without duplicates.
+ */
+export function collectNoteEmbeds(
+	app: App,
+	sourcePath: string,
+	skipLines: { start: number; end: number } | null,
+	accepts: (file: TFile) => boolean
+): TFile[] {
+	const embeds = app.metadataCache.getCache(sourcePath)?.embeds ?? [];
+	const seen = new Set<string>();
+	const files: TFile[] = [];
+	for (const embed of [...embeds].sort((a, b) => a.position.start.offset - b.position.start.offset)) {
+		const line = embed.position.start.line;
+		if (skipLines && line >= skipLines.start && line <= skipLines.end) continue;
+		const file = app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), sourcePath);
+		if (file && !seen.has(file.path) && accepts(file)) {
+			seen.add(file.path);
+			files.push(file);
+		}
+	}
+	return files;
+}
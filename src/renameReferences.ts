@@ -0,0 +1,181 @@
+/**
+ * Maps a reference to a renamed file or folder onto its new location.
+ * @param reference - The path as written.
+ * @param sourcePath - The note holding the reference, for resolving short references.
+ */
+export type ReferenceRewriter = (reference: string, sourcePath?: string) => string | null;
+
+/**
+ * Finds the file a link resolves to, the way Obsidian picks among files of the same name: the
+ * exact path first, then a file in the linking note's folder, then the one with the shortest path.
+ * @param reference - The link target, a full path or a trailing part of one.
+ * @param sourcePath - The note holding the link, or empty when there is none.
+ * @param paths - Every file path in the vault.
+ * @returns The resolved path, or null when nothing matches.
+ */
+export function resolveReference(reference: string, sourcePath: string, paths: readonly string[]): string | null {
+	const target = reference.toLowerCase();
+	const exact = paths.find(path => path.toLowerCase() === target);
+	if (exact !== undefined) return exact;
+	const matches = paths.filter(path => path.toLowerCase().endsWith(`/${target}`));
+	const folder = sourcePath.substring(0, sourcePath.lastIndexOf("/"));
+	const sibling = folder ? matches.find(path => path.toLowerCase() === `${folder.toLowerCase()}/${target}`) : undefined;
+	if (sibling !== undefined) return sibling;
+	return matches.sort((a, b) => a.length - b.length || a.localeCompare(b))[0] ?? null;
+}
+
+/**
+ * Creates a rewriter for one rename. A reference is rewritten when it names the old location by
+ * full path, by a trailing part of the path (such as the bare file name), or for notes without the
+ * `.md` extension. Short references that still resolve after a move are left alone, and so are
+ * short references that pointed at another file of the same name.
+ * @param oldPath - The vault path before the rename.
+ * @param newPath - The vault path after the rename.
+ * @param isFolder - Whether a folder was renamed, in which case everything below it moves too.
+ * @param paths - Every file path in the vault as it was before the rename, for telling which file
+ * a short reference meant. Without it, every matching short reference is rewritten.
+ * @returns A function giving the new reference, or null when a reference is unaffected.
+ */
+export function createReferenceRewriter(oldPath: string, newPath: string, isFolder: boolean, paths?: readonly string[]): ReferenceRewriter {
+	if (isFolder) {
+		return reference => {
+			const trimmed = reference.trim();
+			if (trimmed === oldPath || trimmed === `${oldPath}/`) {
+				return trimmed.endsWith("/") ? `${newPath}/` : newPath;
+			}
+			return trimmed.startsWith(`${oldPath}/`) ? newPath + trimmed.substring(oldPath.length) : null;
+		};
+	}
+
+	const rewriteExact = (reference: string, sourcePath: string): string | null => {
+		if (reference === oldPath) return newPath;
+		if (!oldPath.endsWith(`/${reference}`)) return null;
+		if (paths && resolveReference(reference, sourcePath, paths) !== oldPath) return null;
+		const renamed = newPath.split("/").slice(-reference.split("/").length).join("/");
+		return renamed === reference ? null : renamed;
+	};
+
+	return (reference, sourcePath = "") => {
+		const trimmed = reference.trim();
+		if (!trimmed) return null;
+		const direct = rewriteExact(trimmed, sourcePath);
+		if (direct !== null) return direct;
+		if (oldPath.endsWith(".md") && !trimmed.endsWith(".md")) {
+			const withExtension = rewriteExact(`${trimmed}.md`, sourcePath);
+			return withExtension === null ? null : withExtension.replace(/\.md$/, "");
+		}
+		return null;
+	};
+}
+
+/**
+ * Rewrites the media part of a notes or drawing key (`<sliderId>-<path>|<caption>`). The slider id
+ * may itself contain dashes, so every split point is tried from the left.
+ * @param key - A stored key.
+ * @param rewrite - The reference rewriter for the rename.
+ * @returns The new key, or null when the key does not refer to the renamed file.
+ */
+export function rewriteSliderKey(key: string, rewrite: ReferenceRewriter): string | null {
+	for (let i = key.indexOf("-"); i !== -1; i = key.indexOf("-", i + 1)) {
+		const mediaFile = key.substring(i + 1);
+		const separator = mediaFile.indexOf("|");
+		const path = separator === -1 ? mediaFile : mediaFile.substring(0, separator);
+		const renamed = rewrite(path);
+		if (renamed !== null) {
+			return `${key.substring(0, i + 1)}${renamed}${separator === -1 ? "" : mediaFile.substring(separator)}`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Chains the rewriters of several renames, applied in the order they happened.
+ * @returns A rewriter that gives the final reference, or null when no rename touched it.
+ */
+export function chainReferenceRewriters(rewriters: readonly ReferenceRewriter[]): ReferenceRewriter {
+	return (reference, sourcePath) => {
+		let current: string | null = null;
+		for (const rewrite of rewriters) {
+			current = rewrite(current ?? reference, sourcePath) ?? current;
+		}
+		return current;
+	};
+}
+
+const rewriteEntryLine = (line: string, rewrite: ReferenceRewriter, sourcePath: string): string => {
+	// Wikilinks and embeds: the target runs up to the first `|`, `#` or `]]`.
+	let updated = line.replace(/(!?\[\[)([^|\]#]+)/g, (match, open: string, target: string) => {
+		const renamed = rewrite(target, sourcePath);
+		return renamed === null ? match : `${open}${renamed}`;
+	});
+	// Markdown embeds: ![alt](target) or ![alt](<target>), where the target may end in a `#t=` fragment.
+	updated = updated.replace(/(!\[[^\]]*\]\(<?)([^)>|#]+?)(\s*[|)>#])/g, (match, open: string, target: string, close: string) => {
+		if (/^https?:\/\//.test(target)) return match;
+		const renamed = rewrite(target, sourcePath);
+		return renamed === null ? match : `${open}${renamed}${close}`;
+	});
+	if (updated !== line) return updated;
+
+	// Bare path lines, optionally followed by a media fragment and an attribute block.
+	const bareMatch = line.match(/^(\s*)([^\s{[!][^{#]*?)((?:#t=[^\s{]*)?\s*(\{.*\})?\s*)$/);
+	if (bareMatch && !bareMatch[2].includes(":")) {
+		const renamed = rewrite(bareMatch[2], sourcePath);
+		if (renamed !== null) return `${bareMatch[1]}${renamed}${bareMatch[3]}`;
+	}
+	return line;
+};
+
+/**
+ * Rewrites references inside every `media-slider` code block of a note, including the paths of a
+ * `manualOrder` list in the YAML header, leaving other options and the rest of the note untouched.
+ * @param content - The note's markdown.
+ * @param rewrite - The reference rewriter for the rename.
+ * @param sourcePath - Path of the note, for resolving short references.
+ * @returns The updated markdown (identical to the input when nothing changed).
+ */
+export function rewriteSliderBlocks(content: string, rewrite: ReferenceRewriter, sourcePath = ""): string {
+	const lines = content.split("\n");
+	let fence: string | null = null;
+	let inHeader = false;
+	let headerAllowed = false;
+	let headerKey: string | null = null;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (fence === null) {
+			const open = line.match(/^\s*(`{3,}|~{3,})\s*media-slider\s*$/);
+			if (open) {
+				fence = open[1];
+				headerAllowed = true;
+			}
+			continue;
+		}
+		if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, "") === "") {
+			fence = null;
+			inHeader = false;
+			continue;
+		}
+		if (line.trim() === "---" && (inHeader || headerAllowed)) {
+			inHeader = !inHeader;
+			headerAllowed = false;
+			headerKey = null;
+			continue;
+		}
+		if (line.trim()) headerAllowed = false;
+		if (!inHeader) {
+			lines[i] = rewriteEntryLine(line, rewrite, sourcePath);
+			continue;
+		}
+		const keyMatch = line.match(/^([\w-]+)\s*:/);
+		if (keyMatch) {
+			headerKey = keyMatch[1];
+			continue;
+		}
+		const itemMatch = line.match(/^(\s*-\s*)(["']?)(.+?)\2\s*$/);
+		if (headerKey === "manualOrder" && itemMatch) {
+			const renamed = rewrite(itemMatch[3], sourcePath);
+			if (renamed !== null) lines[i] = `${itemMatch[1]}${itemMatch[2]}${renamed}${itemMatch[2]}`;
+		}
+	}
+	return lines.join("\n");
+}
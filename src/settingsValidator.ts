@@ -0,0 +1,316 @@
+import { setIcon } from "obsidian";
+
+export type FieldSpec =
+	| { type: "boolean" }
+	| { type: "number"; min?: number; max?: number }
+	/** `parse` turns accepted text into the setting's value, or returns null to reject it; `description` names the form it takes. */
+	| { type: "string"; values?: readonly string[]; allowNumber?: boolean; parse?: (text: string) => unknown; description?: string }
+	| { type: "length" }
+	| { type: "stringList"; check?: (item: string) => string | null }
+	/** `required` fields must be present and valid, or the whole object is rejected. */
+	| { type: "object"; fields: SettingsSchema; required?: readonly string[] }
+	/** Free-form keys that all take the same kind of value; `numericKeys` requires them to be numbers. */
+	| { type: "record"; of: FieldSpec; numericKeys?: boolean }
+	| { type: "union"; of: FieldSpec[] };
+
+export interface SettingsSchema {
+	[key: string]: FieldSpec;
+}
+
+export interface ValidationIssue {
+	/** Dotted path of the offending key, empty for whole-block problems like YAML syntax errors. */
+	key: string;
+	message: string;
+	severity: "error" | "warning";
+	suggestion?: string;
+}
+
+export interface ValidationResult {
+	/** Only the keys that passed validation, with lenient values normalized. */
+	value: Record<string, unknown>;
+	issues: ValidationIssue[];
+}
+
+const LENGTH_PATTERN = /^(auto|0|-?\d*\.?\d+(px|%|em|rem|vh|vw|vmin|vmax|ch|ex|cm|mm|in|pt|pc)|(calc|var|min|max|clamp)\(.*\))$/i;
+
+const editDistance = (a: string, b: string): number => {
+	const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		let diagonal = prev[0];
+		prev[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const above = prev[j];
+			prev[j] = Math.min(
+				prev[j] + 1,
+				prev[j - 1] + 1,
+				diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+			);
+			diagonal = above;
+		}
+	}
+	return prev[b.length];
+};
+
+/**
+ * Finds the closest candidate to a misspelled word, allowing roughly one typo per three characters.
+ * @param word - The unknown key or value as written by the user.
+ * @param candidates - The accepted spellings.
+ * @returns The best match, or undefined when nothing is close enough.
+ */
+export function closestMatch(word: string, candidates: readonly string[]): string | undefined {
+	let best: string | undefined;
+	let bestDistance = Infinity;
+	for (const candidate of candidates) {
+		const distance = editDistance(word, candidate);
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return bestDistance <= Math.max(2, Math.floor(word.length / 3)) ? best : undefined;
+}
+
+const describe = (spec: FieldSpec): string => {
+	switch (spec.type) {
+		case "boolean":
+			return "true or false";
+		case "number":
+			if (spec.min !== undefined && spec.max !== undefined) return `a number from ${spec.min} to ${spec.max}`;
+			if (spec.min !== undefined) return `a number of at least ${spec.min}`;
+			if (spec.max !== undefined) return `a number of at most ${spec.max}`;
+			return "a number";
+		case "string":
+			if (spec.description) return spec.description;
+			return spec.values ? `one of ${spec.values.map(v => `"${v}"`).join(", ")}` : "text";
+		case "length":
+			return "a CSS length such as \"380px\" or \"100%\"";
+		case "stringList":
+			return "a list of text values";
+		case "object":
+			return spec.required
+				? `a nested set of options with ${spec.required.map(key => `\`${key}\``).join(" and ")}`
+				: "a nested set of options";
+		case "record":
+			return `\`${spec.numericKeys ? "number" : "key"}: value\` pairs with ${describe(spec.of)} as values`;
+		case "union":
+			return spec.of.map(describe).join(", or ");
+	}
+};
+
+const formatValue = (value: unknown): string => {
+	if (typeof value === "string") return `"${value}"`;
+	if (Array.isArray(value)) return "a list";
+	if (value === null) return "an empty value";
+	if (typeof value === "object") return "a nested set of options";
+	return String(value);
+};
+
+/**
+ * Checks a single value against its spec.
+ * @returns The accepted (possibly normalized) value, or an issue describing why it was rejected.
+ */
+const checkValue = (
+	path: string,
+	value: unknown,
+	spec: FieldSpec,
+	issues: ValidationIssue[]
+): { ok: true; value: unknown } | { ok: false; issue: ValidationIssue } => {
+	const reject = (suggestion?: string): { ok: false; issue: ValidationIssue } => ({
+		ok: false,
+		issue: {
+			key: path,
+			severity: "error",
+			message: `${formatValue(value)} is not valid, expected ${describe(spec)}.`,
+			suggestion
+		}
+	});
+
+	switch (spec.type) {
+		case "boolean":
+			if (typeof value === "boolean") return { ok: true, value };
+			if (value === "true" || value === "false") return reject(String(value === "true"));
+			return reject();
+		case "number":
+			if (typeof value !== "number" || isNaN(value)) {
+				const parsed = typeof value === "string" ? parseFloat(value) : NaN;
+				return reject(isNaN(parsed) ? undefined : String(parsed));
+			}
+			if (spec.min !== undefined && value < spec.min) return reject(String(spec.min));
+			if (spec.max !== undefined && value > spec.max) return reject(String(spec.max));
+			return { ok: true, value };
+		case "string": {
+			let text: string;
+			if (typeof value === "string") {
+				text = value;
+			} else if (typeof value === "number" && spec.allowNumber) {
+				text = String(value);
+			} else {
+				return reject();
+			}
+			if (spec.values && !spec.values.includes(text)) {
+				return reject(closestMatch(text, spec.values));
+			}
+			if (spec.parse) {
+				const parsed = spec.parse(text);
+				return parsed === null ? reject() : { ok: true, value: parsed };
+			}
+			return { ok: true, value: text };
+		}
+		case "length":
+			if (typeof value === "number") return reject(`${value}px`);
+			if (typeof value === "string" && LENGTH_PATTERN.test(value.trim())) return { ok: true, value: value.trim() };
+			if (typeof value === "string" && /^\d*\.?\d+$/.test(value.trim())) return reject(`${value.trim()}px`);
+			return reject();
+		case "stringList": {
+			const items = typeof value === "string" ? [value] : value;
+			if (!Array.isArray(items) || !items.every(item => typeof item === "string" || typeof item === "number")) {
+				return reject();
+			}
+			const accepted: string[] = [];
+			items.map(item => String(item)).forEach((item, index) => {
+				const problem = spec.check?.(item);
+				if (problem) {
+					issues.push({ key: `${path}[${index}]`, severity: "error", message: `"${item}": ${problem}` });
+				} else {
+					accepted.push(item);
+				}
+			});
+			return { ok: true, value: accepted };
+		}
+		case "object": {
+			if (value === null || typeof value !== "object" || Array.isArray(value)) return reject();
+			const accepted = validateAgainst(value as Record<string, unknown>, spec.fields, issues, `${path}.`);
+			const missing = (spec.required ?? []).filter(key => accepted[key] === undefined);
+			if (missing.length > 0) {
+				return {
+					ok: false,
+					issue: { key: path, severity: "error", message: `Needs a valid ${missing.map(key => `\`${key}\``).join(" and ")}.` }
+				};
+			}
+			return { ok: true, value: accepted };
+		}
+		case "record": {
+			if (value === null || typeof value !== "object" || Array.isArray(value)) return reject();
+			const accepted: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+				if (spec.numericKeys && isNaN(Number(key))) {
+					issues.push({ key: `${path}.${key}`, severity: "error", message: `"${key}" is not a number.` });
+					continue;
+				}
+				const result = checkValue(`${path}.${key}`, item, spec.of, issues);
+				if (result.ok) {
+					accepted[key] = result.value;
+				} else {
+					issues.push(result.issue);
+				}
+			}
+			return { ok: true, value: accepted };
+		}
+		case "union": {
+			let suggestion: string | undefined;
+			for (const option of spec.of) {
+				const nestedIssues: ValidationIssue[] = [];
+				const result = checkValue(path, value, option, nestedIssues);
+				if (result.ok) {
+					issues.push(...nestedIssues);
+					return result;
+				}
+				suggestion = suggestion ?? result.issue.suggestion;
+			}
+			return reject(suggestion);
+		}
+	}
+};
+
+const validateAgainst = (
+	raw: Record<string, unknown>,
+	schema: SettingsSchema,
+	issues: ValidationIssue[],
+	prefix: string
+): Record<string, unknown> => {
+	const value: Record<string, unknown> = {};
+	const knownKeys = Object.keys(schema);
+
+	for (const [key, rawValue] of Object.entries(raw)) {
+		const spec = schema[key];
+		if (!spec) {
+			issues.push({
+				key: `${prefix}${key}`,
+				severity: "warning",
+				message: "Unknown option, it will be ignored.",
+				suggestion: closestMatch(key, knownKeys)
+			});
+			continue;
+		}
+		if (rawValue === null || rawValue === undefined) continue;
+
+		const result = checkValue(`${prefix}${key}`, rawValue, spec, issues);
+		if (result.ok) {
+			value[key] = result.value;
+		} else {
+			issues.push(result.issue);
+		}
+	}
+	return value;
+};
+
+/**
+ * Validates parsed YAML metadata against a schema. Unknown keys and invalid values are
+ * reported and left out of the result so the caller's defaults stay in effect.
+ * @param raw - The object returned by `parseYaml`.
+ * @param schema - The accepted keys and their types.
+ * @returns The accepted values and every issue found.
+ */
+export function validateSettings(raw: unknown, schema: SettingsSchema): ValidationResult {
+	const issues: ValidationIssue[] = [];
+	if (raw === null || raw === undefined) {
+		return { value: {}, issues };
+	}
+	if (typeof raw !== "object" || Array.isArray(raw)) {
+		issues.push({
+			key: "",
+			severity: "error",
+			message: "The settings header must be a list of `key: value` lines."
+		});
+		return { value: {}, issues };
+	}
+	return { value: validateAgainst(raw as Record<string, unknown>, schema, issues, ""), issues };
+}
+
+/**
+ * Renders a collapsible panel listing validation issues above a slider.
+ * @param container - The element the panel is inserted into (as its first child).
+ * @param issues - The issues to show. Nothing is rendered when empty.
+ */
+export function renderValidationPanel(container: HTMLElement, issues: ValidationIssue[]): void {
+	if (issues.length === 0) return;
+
+	const errorCount = issues.filter(issue => issue.severity === "error").length;
+	const warningCount = issues.length - errorCount;
+	const summaryParts: string[] = [];
+	if (errorCount > 0) summaryParts.push(`${errorCount} error${errorCount === 1 ? "" : "s"}`);
+	if (warningCount > 0) summaryParts.push(`${warningCount} warning${warningCount === 1 ? "" : "s"}`);
+
+	const panel = createEl("details", { cls: "ms-validation-panel" });
+	panel.classList.add(errorCount > 0 ? "ms-validation-error" : "ms-validation-warning");
+	const summary = panel.createEl("summary", { cls: "ms-validation-summary" });
+	setIcon(summary.createSpan("ms-validation-icon"), "alert-triangle");
+	summary.createSpan({ text: `Media slider settings: ${summaryParts.join(", ")}` });
+
+	const list = panel.createEl("ul", { cls: "ms-validation-list" });
+	for (const issue of issues) {
+		const item = list.createEl("li", { cls: `ms-validation-item ms-validation-${issue.severity}` });
+		if (issue.key) {
+			item.createEl("code", { text: issue.key });
+			item.appendText(": ");
+		}
+		item.appendText(issue.message);
+		if (issue.suggestion) {
+			item.appendText(" Did you mean ");
+			item.createEl("code", { text: issue.suggestion });
+			item.appendText("?");
+		}
+	}
+
+	container.prepend(panel);
+}
@@ -0,0 +1,150 @@
+export const OBJECT_FIT_VALUES = ["contain", "cover", "fill", "none", "scale-down"] as const;
+
+export interface SlideAttributes {
+	/** Video/audio start offset in seconds. */
+	start?: number;
+	/** Video/audio end offset in seconds. */
+	end?: number;
+	fit?: (typeof OBJECT_FIT_VALUES)[number];
+	/** Slideshow time for this slide in seconds, overriding `slideshowSpeed`. */
+	duration?: number;
+	autoplay?: boolean;
+	muted?: boolean;
+	loop?: boolean;
+	/** Move to the next slide when the video/audio, or its start/end segment, finishes. */
+	advance?: boolean;
+}
+
+export interface ParsedSlideAttributes {
+	/** The entry line with its trailing `{...}` block removed. */
+	line: string;
+	attributes: SlideAttributes | null;
+	errors: string[];
+}
+
+// A trailing `{...}` block after the entry, e.g. after the closing `]]` of an embed.
+const ATTRIBUTE_BLOCK = /^(.*?\S)\s*\{([^{}]*)\}\s*$/;
+const ATTRIBUTE_TOKEN = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+)))?/;
+
+/**
+ * Parses a time such as `12`, `1:30` or `1:02:03.5` into seconds.
+ * @returns The number of seconds, or null when the text is not a time.
+ */
+export function parseTime(text: string): number | null {
+	if (!/^\d+(\.\d+)?$|^\d+(:\d{1,2})+(\.\d+)?$/.test(text)) return null;
+	return text.split(":").reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+// A temporal media fragment at the end of a path: `#t=12,30`, `#t=1:30`, `#t=,45` or `#t=npt:12,30`.
+const MEDIA_FRAGMENT = /#t=(?:npt:)?([\d:.]*)(?:,([\d:.]+))?$/;
+
+/**
+ * Splits a `#t=start,end` media fragment off a path.
+ * @param path - A media path, e.g. `demo.mp4#t=12,30`.
+ * @returns The path without the fragment and the times it gives, or null when there is no
+ * fragment. `error` is set when a time cannot be read.
+ */
+export function parseMediaFragment(path: string): { path: string; start?: number; end?: number; error?: string } | null {
+	const match = path.match(MEDIA_FRAGMENT);
+	if (!match) return null;
+
+	const result: { path: string; start?: number; end?: number; error?: string } = { path: path.substring(0, match.index).trim() };
+	const start = match[1] ? parseTime(match[1]) : null;
+	const end = match[2] ? parseTime(match[2]) : null;
+	if ((match[1] && start === null) || (match[2] && end === null)) {
+		result.error = `"${match[0]}" is not a valid media fragment; use e.g. #t=12,30 or #t=1:30.`;
+		return result;
+	}
+	if (start !== null && start > 0) result.start = start;
+	if (end !== null) result.end = end;
+	return result;
+}
+
+const parseFlag = (value: string | undefined): boolean | null => {
+	if (value === undefined || value === "true") return true;
+	if (value === "false") return false;
+	return null;
+};
+
+/**
+ * Splits the `{key=value flag}` attribute block off a slide entry line.
+ * @param line - One entry line, e.g. `![[clip.mp4|Demo]] {start=12 end=40 muted}`.
+ * @returns The line without the block, the parsed attributes, and a message per rejected attribute.
+ */
+export function parseSlideAttributes(line: string): ParsedSlideAttributes {
+	const blockMatch = line.match(ATTRIBUTE_BLOCK);
+	if (!blockMatch) {
+		return { line, attributes: null, errors: [] };
+	}
+
+	const attributes: SlideAttributes = {};
+	const errors: string[] = [];
+	const tokenPattern = new RegExp(ATTRIBUTE_TOKEN.source, "g");
+	let token: RegExpExecArray | null;
+	while ((token = tokenPattern.exec(blockMatch[2])) !== null) {
+		const key = token[1];
+		const value = token[2] ?? token[3] ?? token[4];
+		switch (key) {
+			case "start":
+			case "end":
+			case "duration": {
+				const seconds = value === undefined ? null : parseTime(value);
+				if (seconds === null || (key === "duration" && seconds <= 0)) {
+					errors.push(`"${key}" needs a time in seconds, e.g. ${key}=12 or ${key}=1:30.`);
+				} else {
+					attributes[key] = seconds;
+				}
+				break;
+			}
+			case "fit": {
+				const fit = OBJECT_FIT_VALUES.find(option => option === value);
+				if (fit) {
+					attributes.fit = fit;
+				} else {
+					errors.push(`"fit" must be one of ${OBJECT_FIT_VALUES.join(", ")}.`);
+				}
+				break;
+			}
+			case "autoplay":
+			case "muted":
+			case "loop":
+			case "advance": {
+				const flag = parseFlag(value);
+				if (flag === null) {
+					errors.push(`"${key}" is a flag; write it alone or as ${key}=false.`);
+				} else {
+					attributes[key] = flag;
+				}
+				break;
+			}
+			default:
+				errors.push(`Unknown slide attribute "${key}".`);
+		}
+	}
+
+	if (attributes.start !== undefined && attributes.end !== undefined && attributes.end <= attributes.start) {
+		errors.push(`"end" (${attributes.end}s) must be after "start" (${attributes.start}s).`);
+		delete attributes.end;
+	}
+
+	return {
+		line: blockMatch[1],
+		attributes: Object.keys(attributes).length > 0 ? attributes : null,
+		errors
+	};
+}
+
+/**
+ * Formats attributes as a `{...}` block that {@link parseSlideAttributes} reads back unchanged.
+ * @returns The block, or an empty string when there is nothing to write.
+ */
+export function formatSlideAttributes(attributes: SlideAttributes): string {
+	const tokens: string[] = [];
+	for (const key of ["start", "end", "fit", "duration"] as const) {
+		if (attributes[key] !== undefined) tokens.push(`${key}=${attributes[key]}`);
+	}
+	for (const key of ["autoplay", "muted", "loop", "advance"] as const) {
+		if (attributes[key] !== undefined) tokens.push(attributes[key] ? key : `${key}=false`);
+	}
+	return tokens.length > 0 ? `{${tokens.join(" ")}}` : "";
+}
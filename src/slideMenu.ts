@@ -0,0 +1,144 @@
+import { App, Menu, Notice, TAbstractFile, TFile } from "obsidian";
+
+/** Undocumented parts of the app that Obsidian's own file menu uses. Each may be missing. */
+interface FileMenuApp extends App {
+	openWithDefaultApp?(path: string): void;
+	internalPlugins?: {
+		getEnabledPluginById?(id: string): { revealInFolder?(file: TAbstractFile): void } | null;
+	};
+	fileManager: App["fileManager"] & { promptForFileRename?(file: TAbstractFile): Promise<void> };
+}
+
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "bmp", "svg", "webp", "avif"];
+
+export interface SlideMenuOptions {
+	/** Path of the note holding the slider, for link text. */
+	sourcePath: string;
+	/** Shown above the actions, to tell the files of a compare group apart. */
+	heading?: string;
+	/** Takes the file out of the slider's code block; the item is left out when not given. */
+	onRemove?: () => void;
+}
+
+/**
+ * Draws an image onto a canvas and puts it on the clipboard as a PNG, the one image type the
+ * clipboard accepts everywhere.
+ */
+async function copyImageToClipboard(src: string): Promise<void> {
+	const img = new Image();
+	img.src = src;
+	await img.decode();
+
+	const canvas = document.createElement("canvas");
+	canvas.width = img.naturalWidth;
+	canvas.height = img.naturalHeight;
+	const ctx = canvas.getContext("2d");
+	if (!ctx) throw new Error("Canvas context not available");
+	ctx.drawImage(img, 0, 0);
+
+	const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+	if (!blob) throw new Error("The image could not be converted to PNG");
+	await navigator.clipboard.write([new ClipboardItem({ "image/png": blob })]);
+}
+
+/**
+ * Adds the file actions for one slide to a context menu.
+ * @param app - The Obsidian app.
+ * @param menu - The menu to add to.
+ * @param file - The file the slide shows.
+ * @param options - Where the slider lives and how to remove the file from it.
+ */
+export function addSlideFileActions(app: App, menu: Menu, file: TFile, options: SlideMenuOptions): void {
+	const internals = app as FileMenuApp;
+	const section = `media-slider-${file.path}`;
+
+	if (options.heading) {
+		const heading = options.heading;
+		menu.addItem(item => item.setSection(section).setTitle(heading).setIsLabel(true));
+	}
+
+	menu.addItem(item => item
+		.setSection(section)
+		.setTitle("Open in new tab")
+		.setIcon("file-plus")
+		.onClick(() => void app.workspace.getLeaf("tab").openFile(file))
+	);
+
+	const fileExplorer = internals.internalPlugins?.getEnabledPluginById?.("file-explorer");
+	if (fileExplorer?.revealInFolder) {
+		menu.addItem(item => item
+			.setSection(section)
+			.setTitle("Reveal in file explorer")
+			.setIcon("folder-open")
+			.onClick(() => fileExplorer.revealInFolder?.(file))
+		);
+	}
+
+	if (internals.openWithDefaultApp) {
+		menu.addItem(item => item
+			.setSection(section)
+			.setTitle("Open in default app")
+			.setIcon("arrow-up-right")
+			.onClick(() => internals.openWithDefaultApp?.(file.path))
+		);
+	}
+
+	menu.addItem(item => item
+		.setSection(section)
+		.setTitle("Copy wikilink")
+		.setIcon("link")
+		.onClick(async () => {
+			const link = `![[${app.metadataCache.fileToLinktext(file, options.sourcePath, false)}]]`;
+			try {
+				await navigator.clipboard.writeText(link);
+				new Notice("Link copied to clipboard.");
+			} catch (error) {
+				console.error("Failed to copy link:", error);
+			}
+		})
+	);
+
+	if (IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+		menu.addItem(item => item
+			.setSection(section)
+			.setTitle("Copy image")
+			.setIcon("image")
+			.onClick(async () => {
+				try {
+					await copyImageToClipboard(app.vault.getResourcePath(file));
+					new Notice("Image copied to clipboard.");
+				} catch (error) {
+					console.error("Failed to copy image:", error);
+					new Notice(`Could not copy the image: ${error.message ?? error}`);
+				}
+			})
+		);
+	}
+
+	if (internals.fileManager.promptForFileRename) {
+		menu.addItem(item => item
+			.setSection(section)
+			.setTitle("Rename...")
+			.setIcon("pencil")
+			.onClick(() => void internals.fileManager.promptForFileRename?.(file))
+		);
+	}
+
+	if (options.onRemove) {
+		const onRemove = options.onRemove;
+		menu.addItem(item => item
+			.setSection(section)
+			.setTitle("Remove from this slider")
+			.setIcon("list-x")
+			.onClick(onRemove)
+		);
+	}
+
+	menu.addItem(item => item
+		.setSection(section)
+		.setTitle("Move to trash")
+		.setIcon("trash-2")
+		.setWarning(true)
+		.onClick(() => void app.fileManager.promptForDeletion(file))
+	);
+}
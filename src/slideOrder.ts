@@ -0,0 +1,148 @@
+import { parseYaml } from "obsidian";
+import { escapeGlob } from "./pathFilter";
+import { findSliderHeader, parseSliderEntry, setSliderHeaderValues } from "./sliderSource";
+
+/** Where a slide came from in its block's source. */
+export interface SlideOrigin {
+	/** The trimmed source line that produced the slide; null for compare groups. */
+	line: string | null;
+	/** Compare group id, for a slide built from a `||1-1` group. */
+	compareGroup?: string;
+	/** Vault path of a slide expanded from a folder line. */
+	folderFile?: string;
+	/** Set for slides from a query or the note's own embeds, whose order cannot be stored. */
+	derived?: boolean;
+}
+
+export interface SlideOrderEdit {
+	/** The new block body, or null when nothing needs to change. */
+	body: string[] | null;
+	/** Whether slides from a query or `source: self` were reordered among themselves, which is not kept. */
+	lostDerivedOrder: boolean;
+}
+
+const unitKey = (origin: SlideOrigin): string =>
+	origin.compareGroup !== undefined ? `compare:${origin.compareGroup}` : `line:${origin.line}`;
+
+const sameOrder = (a: string[], b: string[]): boolean => a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * Works out how the source of a block must change so it renders its slides in a new order.
+ * Entry lines are moved into the order in which their slides now first appear, leaving blank
+ * and unrecognised lines where they are; the lines of a compare group move together. Slides
+ * expanded from folders are ordered through `sort: manual` and a `manualOrder` list in the header.
+ * @param body - The lines between the block's fences.
+ * @param before - The origin of each slide as currently shown.
+ * @param after - The same origins in the new order.
+ * @returns The edit to apply.
+ */
+export function applySlideOrder(body: string[], before: SlideOrigin[], after: SlideOrigin[]): SlideOrderEdit {
+	const header = findSliderHeader(body);
+	const entryStart = header ? header.end + 1 : 0;
+
+	const collectUnits = (origins: SlideOrigin[]) => {
+		const units: SlideOrigin[] = [];
+		const seen = new Set<string>();
+		for (const origin of origins) {
+			const key = unitKey(origin);
+			if (!seen.has(key)) {
+				seen.add(key);
+				units.push(origin);
+			}
+		}
+		return units;
+	};
+	const units = collectUnits(after);
+	const linesMoved = !sameOrder(collectUnits(before).map(unitKey), units.map(unitKey));
+
+	// Assign the body lines each unit owns, then refill the same slots in the new unit order.
+	const used = new Set<number>();
+	const sequence: number[] = [];
+	for (const unit of linesMoved ? units : []) {
+		for (let i = entryStart; i < body.length; i++) {
+			if (used.has(i) || !body[i].trim()) continue;
+			let owned: boolean;
+			if (unit.compareGroup !== undefined) {
+				const group = parseSliderEntry(body[i]).entry?.compareGroup;
+				owned = !!group && group.split("-")[0] === unit.compareGroup;
+			} else {
+				owned = body[i].trim() === unit.line;
+			}
+			if (owned) {
+				used.add(i);
+				sequence.push(i);
+				if (unit.compareGroup === undefined) break;
+			}
+		}
+	}
+	const slots = [...sequence].sort((a, b) => a - b);
+	let newBody = [...body];
+	slots.forEach((slot, i) => newBody[slot] = body[sequence[i]]);
+	let changed = slots.some((slot, i) => slot !== sequence[i]);
+
+	const folderOrder = (origins: SlideOrigin[]) =>
+		origins.filter(origin => origin.folderFile !== undefined).map(origin => origin.folderFile as string);
+	const manualOrder = folderOrder(after);
+	if (!sameOrder(folderOrder(before), manualOrder)) {
+		newBody = setSliderHeaderValues(newBody, { sort: "manual", manualOrder });
+		changed = true;
+	}
+
+	// `after` holds the same origin objects as `before`, so a moved slide is found by identity.
+	const lostDerivedOrder = units.some(unit => {
+		if (!unit.derived) return false;
+		const inUnit = (origins: SlideOrigin[]) => origins.filter(origin => origin.derived && origin.line === unit.line);
+		const previous = inUnit(before);
+		return inUnit(after).some((origin, i) => origin !== previous[i]);
+	});
+
+	return { body: changed ? newBody : null, lostDerivedOrder };
+}
+
+/** Reads the `exclude` list written in the block itself, leaving out what presets add. */
+const readOwnExclude = (body: string[], header: { start: number; end: number } | null): string[] => {
+	if (!header) return [];
+	try {
+		const exclude = (parseYaml(body.slice(header.start + 1, header.end).join("\n")) as Record<string, unknown> | null)?.exclude;
+		if (typeof exclude === "string") return [exclude];
+		return Array.isArray(exclude) ? exclude.map(item => String(item)) : [];
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Takes one slide out of a block. Entry lines are deleted; for a compare group only the line of
+ * the given file goes. Slides from folders and queries have no line of their own, so they are
+ * added to the block's `exclude` instead, as a literal `./` pattern: relative to the folder for
+ * folder slides, as a vault path otherwise.
+ * @param body - The lines between the block's fences.
+ * @param origin - Where the slide came from.
+ * @param path - The slide's path as written in the block, or its vault path for expanded slides.
+ * @returns The new body, or null when the slide's line is no longer there.
+ */
+export function removeSlideFromBody(body: string[], origin: SlideOrigin, path: string): string[] | null {
+	const header = findSliderHeader(body);
+	if (origin.folderFile !== undefined || origin.derived) {
+		const folder = origin.line?.match(/!?\[\[(.*?)\/?\]\]/)?.[1];
+		const relative = origin.folderFile !== undefined && folder && path.startsWith(`${folder}/`)
+			? path.substring(folder.length + 1)
+			: path;
+		// A pattern with a `/` is matched against the whole relative path, so `./` pins it to this file.
+		return setSliderHeaderValues(body, { exclude: [...readOwnExclude(body, header), `./${escapeGlob(relative)}`] });
+	}
+
+	for (let i = header ? header.end + 1 : 0; i < body.length; i++) {
+		let matches: boolean;
+		if (origin.compareGroup !== undefined) {
+			const entry = parseSliderEntry(body[i]).entry;
+			matches = !!entry?.compareGroup && entry.compareGroup.split("-")[0] === origin.compareGroup && entry.path === path;
+		} else {
+			matches = body[i].trim() === origin.line;
+		}
+		if (matches) {
+			return [...body.slice(0, i), ...body.slice(i + 1)];
+		}
+	}
+	return null;
+}
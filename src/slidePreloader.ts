@@ -0,0 +1,36 @@
+/**
+ * Holds the display-ready sources of a few slides, such as compressed images, keyed by the
+ * slide's media path. The slider keeps the current slide and its neighbours here and drops
+ * everything else, so memory stays bounded however long the slider is.
+ */
+export class SlidePreloader {
+	private sources = new Map<string, Promise<string>>();
+
+	/**
+	 * Returns the source for a path, loading it on first request.
+	 * @param path - The media path.
+	 * @param load - Produces the source; a failed load is forgotten so it can be retried.
+	 */
+	get(path: string, load: () => Promise<string>): Promise<string> {
+		let source = this.sources.get(path);
+		if (!source) {
+			source = load();
+			this.sources.set(path, source);
+			source.catch(() => {
+				if (this.sources.get(path) === source) this.sources.delete(path);
+			});
+		}
+		return source;
+	}
+
+	/** Drops every source whose path is not in `paths`. */
+	keepOnly(paths: Set<string>): void {
+		for (const path of Array.from(this.sources.keys())) {
+			if (!paths.has(path)) this.sources.delete(path);
+		}
+	}
+
+	clear(): void {
+		this.sources.clear();
+	}
+}
@@ -0,0 +1,103 @@
+export interface SlideViewOptions {
+	/** Slides shown side by side. */
+	perView: number;
+	/** Slides moved by one step of the navigation. */
+	perGroup: number;
+	/** Keep the current slide in the middle, with neighbours on both sides. */
+	centered: boolean;
+	/** Show a strip of the slides just outside the view on both sides. */
+	peek: boolean;
+}
+
+export interface VisibleSlide {
+	/** Index of the slide, or null for a space past either end of the list. */
+	index: number | null;
+	/** Whether this is one of the partly shown neighbours. */
+	peek: boolean;
+}
+
+/**
+ * Picks the number of slides per view for the slider's current width.
+ * @param setting - A fixed count, or counts by minimum width in pixels, e.g. `{ 0: 1, 600: 2, 900: 3 }`.
+ * @param width - The slider's width in pixels.
+ * @returns A whole number of at least 1.
+ */
+export function resolveSlidesPerView(setting: number | Record<string, number>, width: number): number {
+	let perView = 1;
+	if (typeof setting === "number") {
+		perView = setting;
+	} else {
+		let matched = -1;
+		for (const [minWidth, count] of Object.entries(setting)) {
+			const min = parseFloat(minWidth);
+			if (!isNaN(min) && min <= width && min > matched) {
+				matched = min;
+				perView = count;
+			}
+		}
+	}
+	return Math.max(1, Math.floor(perView));
+}
+
+/**
+ * The number of slides in view. A centered view shows as many neighbours on the left as on the
+ * right, so an even count is rounded up.
+ */
+const slotsInView = (options: SlideViewOptions): number =>
+	options.centered && options.perView % 2 === 0 ? options.perView + 1 : options.perView;
+
+/**
+ * Highest index the current slide can have. Without centering the current slide is the first in
+ * view, and the view stops when the last slide reaches its right edge.
+ */
+const lastPosition = (count: number, options: SlideViewOptions): number =>
+	options.centered ? count - 1 : Math.max(0, count - slotsInView(options));
+
+/**
+ * Lists the slides to show, left to right, including the peeking neighbours.
+ * @param current - Index of the current slide.
+ * @param count - Number of slides.
+ * @param options - How the view is laid out.
+ */
+export function visibleSlides(current: number, count: number, options: SlideViewOptions): VisibleSlide[] {
+	const slots = slotsInView(options);
+	const first = options.centered ? current - Math.floor(slots / 2) : current;
+	const slides: VisibleSlide[] = [];
+	const at = (index: number, peek: boolean) => slides.push({ index: index >= 0 && index < count ? index : null, peek });
+
+	if (options.peek) at(first - 1, true);
+	for (let i = 0; i < slots; i++) at(first + i, false);
+	if (options.peek) at(first + slots, true);
+	return slides;
+}
+
+/**
+ * Moves the current slide by one group. Past either end the view wraps around to the other end.
+ * @param current - Index of the current slide.
+ * @param count - Number of slides.
+ * @param options - How the view is laid out.
+ * @param direction - 1 for next, -1 for previous.
+ * @returns The new current index.
+ */
+export function stepSlide(current: number, count: number, options: SlideViewOptions, direction: 1 | -1): number {
+	if (count === 0) return 0;
+	const last = lastPosition(count, options);
+	const group = Math.max(1, Math.floor(options.perGroup));
+	if (direction === 1) {
+		return current >= last ? 0 : Math.min(current + group, last);
+	}
+	return current <= 0 ? last : Math.max(0, current - group);
+}
+
+/**
+ * Turns a slide to show, such as a clicked thumbnail, into a current index that shows it with a
+ * full view.
+ */
+export function alignSlide(index: number, count: number, options: SlideViewOptions): number {
+	return Math.max(0, Math.min(index, lastPosition(count, options)));
+}
+
+/** Whether the view has reached the end of the list, where a `stopAtEnd` slideshow stops. */
+export function isAtLastStep(current: number, count: number, options: SlideViewOptions): boolean {
+	return current >= lastPosition(count, options);
+}
@@ -0,0 +1,293 @@
+import { App, Component, FuzzySuggestModal, MarkdownRenderer, Modal, Setting, TAbstractFile, TFile, TFolder, debounce, setIcon } from "obsidian";
+import { SettingsSchema, validateSettings } from "./settingsValidator";
+import { formatSliderBlock, formatSliderEntry } from "./sliderSource";
+
+export interface SliderBuilderOptions {
+	/** Path of the note the block will be inserted into, for link resolution in the preview. */
+	sourcePath: string;
+	/** File extensions offered in the picker. */
+	mediaExtensions: string[];
+	/** Default value of every option the builder exposes; only changed options are written. */
+	defaults: Record<string, unknown>;
+	/** The block's settings schema; typed values must pass it before they are written. */
+	schema: SettingsSchema;
+	transitionEffects: readonly string[];
+	layouts: readonly string[];
+	sortModes: readonly string[];
+	presetNames: string[];
+	onInsert: (block: string) => void;
+}
+
+interface BuilderEntry {
+	path: string;
+	isFolder: boolean;
+	caption: string;
+	compareGroup: string;
+}
+
+class MediaPickerModal extends FuzzySuggestModal<TAbstractFile> {
+	private extensions: string[];
+	private onPick: (file: TAbstractFile) => void;
+
+	constructor(app: App, extensions: string[], onPick: (file: TAbstractFile) => void) {
+		super(app);
+		this.extensions = extensions;
+		this.onPick = onPick;
+		this.setPlaceholder("Pick a media file, or a folder to include all of its media");
+	}
+
+	getItems(): TAbstractFile[] {
+		return this.app.vault.getAllLoadedFiles().filter(file =>
+			file instanceof TFolder
+				? !file.isRoot()
+				: file instanceof TFile && this.extensions.includes(file.extension.toLowerCase())
+		);
+	}
+
+	getItemText(file: TAbstractFile): string {
+		return file instanceof TFolder ? `${file.path}/` : file.path;
+	}
+
+	onChooseItem(file: TAbstractFile): void {
+		this.onPick(file);
+	}
+}
+
+/**
+ * Modal for building a media-slider block without writing YAML: pick files and folders, order
+ * them by dragging, set captions and compare groups, adjust the common options, and see the
+ * result rendered live before inserting it.
+ */
+export class SliderBuilderModal extends Modal {
+	private options: SliderBuilderOptions;
+	private entries: BuilderEntry[] = [];
+	private values: Record<string, unknown>;
+	private entriesEl: HTMLElement;
+	private previewEl: HTMLElement;
+	private previewComponent: Component | null = null;
+	private draggedIndex: number | null = null;
+	private schedulePreview = debounce(() => void this.renderPreview(), 400, true);
+
+	constructor(app: App, options: SliderBuilderOptions) {
+		super(app);
+		this.options = options;
+		this.values = { ...options.defaults };
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.modalEl.addClass("ms-builder-modal");
+		this.setTitle("Insert media slider");
+
+		const layout = contentEl.createDiv("ms-builder-layout");
+		const editorEl = layout.createDiv("ms-builder-editor");
+		const previewColumn = layout.createDiv("ms-builder-preview-column");
+
+		editorEl.createEl("h4", { text: "Media" });
+		this.entriesEl = editorEl.createDiv("ms-builder-entries");
+		new Setting(editorEl).addButton(button => button
+			.setButtonText("Add file or folder")
+			.setIcon("plus")
+			.onClick(() => {
+				new MediaPickerModal(this.app, this.options.mediaExtensions, file => {
+					this.entries.push({ path: file.path, isFolder: file instanceof TFolder, caption: "", compareGroup: "" });
+					this.renderEntries();
+					this.schedulePreview();
+				}).open();
+			})
+		);
+
+		editorEl.createEl("h4", { text: "Options" });
+		this.renderOptions(editorEl.createDiv("ms-builder-options"));
+
+		previewColumn.createEl("h4", { text: "Preview" });
+		this.previewEl = previewColumn.createDiv("ms-builder-preview");
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText("Cancel")
+				.onClick(() => this.close())
+			)
+			.addButton(button => button
+				.setButtonText("Insert")
+				.setCta()
+				.onClick(() => {
+					if (this.entries.length === 0) return;
+					this.options.onInsert(this.buildSource());
+					this.close();
+				})
+			);
+
+		this.renderEntries();
+		void this.renderPreview();
+	}
+
+	onClose(): void {
+		this.previewComponent?.unload();
+		this.previewComponent = null;
+		this.contentEl.empty();
+	}
+
+	private buildSource(): string {
+		const changed: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(this.values)) {
+			if (value !== this.options.defaults[key]) changed[key] = value;
+		}
+		const lines = this.entries.map(entry => entry.isFolder
+			? `![[${entry.path}/]]`
+			: formatSliderEntry({
+				path: entry.path,
+				caption: entry.caption.trim() || null,
+				compareGroup: entry.compareGroup.trim() || null,
+				attributes: null
+			}));
+		return formatSliderBlock(changed, lines);
+	}
+
+	private async renderPreview(): Promise<void> {
+		this.previewComponent?.unload();
+		this.previewEl.empty();
+		if (this.entries.length === 0) {
+			this.previewEl.createEl("p", { text: "Add media to see a preview.", cls: "ms-builder-empty" });
+			return;
+		}
+		this.previewComponent = new Component();
+		this.previewComponent.load();
+		await MarkdownRenderer.render(this.app, this.buildSource(), this.previewEl, this.options.sourcePath, this.previewComponent);
+	}
+
+	private renderEntries(): void {
+		this.entriesEl.empty();
+		if (this.entries.length === 0) {
+			this.entriesEl.createEl("p", { text: "No media added yet.", cls: "ms-builder-empty" });
+			return;
+		}
+
+		this.entries.forEach((entry, index) => {
+			const row = this.entriesEl.createDiv("ms-builder-entry");
+			row.draggable = true;
+
+			setIcon(row.createSpan("ms-builder-drag-handle"), "grip-vertical");
+			const label = row.createDiv({ cls: "ms-builder-entry-path", text: entry.isFolder ? `${entry.path}/` : entry.path });
+			label.setAttr("title", label.getText());
+
+			if (!entry.isFolder) {
+				const captionInput = row.createEl("input", { type: "text", cls: "ms-builder-caption", placeholder: "Caption" });
+				captionInput.value = entry.caption;
+				captionInput.oninput = () => {
+					entry.caption = captionInput.value;
+					this.schedulePreview();
+				};
+
+				const groupInput = row.createEl("input", { type: "text", cls: "ms-builder-compare-group", placeholder: "Compare (1-1)" });
+				groupInput.value = entry.compareGroup;
+				groupInput.oninput = () => {
+					const valid = /^([\w-]+)?$/.test(groupInput.value.trim());
+					groupInput.toggleClass("ms-builder-invalid", !valid);
+					if (!valid) return;
+					entry.compareGroup = groupInput.value;
+					this.schedulePreview();
+				};
+			}
+
+			const removeBtn = row.createEl("button", { cls: "ms-builder-remove clickable-icon" });
+			setIcon(removeBtn, "x");
+			removeBtn.setAttr("aria-label", "Remove");
+			removeBtn.onclick = () => {
+				this.entries.splice(index, 1);
+				this.renderEntries();
+				this.schedulePreview();
+			};
+
+			row.addEventListener("dragstart", (evt: DragEvent) => {
+				this.draggedIndex = index;
+				row.addClass("ms-builder-dragging");
+				evt.dataTransfer?.setData("text/plain", String(index));
+			});
+			row.addEventListener("dragend", () => {
+				this.draggedIndex = null;
+				row.removeClass("ms-builder-dragging");
+			});
+			row.addEventListener("dragover", (evt: DragEvent) => {
+				if (this.draggedIndex === null) return;
+				evt.preventDefault();
+				const below = evt.offsetY > row.clientHeight / 2;
+				row.toggleClass("ms-builder-drop-before", !below);
+				row.toggleClass("ms-builder-drop-after", below);
+			});
+			row.addEventListener("dragleave", () => {
+				row.removeClass("ms-builder-drop-before", "ms-builder-drop-after");
+			});
+			row.addEventListener("drop", (evt: DragEvent) => {
+				evt.preventDefault();
+				const from = this.draggedIndex;
+				const after = row.hasClass("ms-builder-drop-after");
+				row.removeClass("ms-builder-drop-before", "ms-builder-drop-after");
+				if (from === null) return;
+				const [moved] = this.entries.splice(from, 1);
+				let to = index + (after ? 1 : 0);
+				if (from < to) to--;
+				this.entries.splice(to, 0, moved);
+				this.renderEntries();
+				this.schedulePreview();
+			});
+		});
+	}
+
+	private renderOptions(containerEl: HTMLElement): void {
+		const update = (key: string, value: unknown) => {
+			this.values[key] = value;
+			this.schedulePreview();
+		};
+		const dropdown = (key: string, name: string, choices: readonly string[]) => {
+			new Setting(containerEl).setName(name).addDropdown(menu => {
+				choices.forEach(choice => menu.addOption(choice, choice));
+				menu.setValue(String(this.values[key])).onChange(value => update(key, value));
+			});
+		};
+		const toggle = (key: string, name: string) => {
+			new Setting(containerEl).setName(name).addToggle(control => control
+				.setValue(Boolean(this.values[key]))
+				.onChange(value => update(key, value))
+			);
+		};
+		const text = (key: string, name: string, isNumber = false) => {
+			const setting = new Setting(containerEl).setName(name);
+			setting.addText(input => input
+				.setValue(String(this.values[key]))
+				.onChange(value => {
+					const trimmed = value.trim();
+					const parsed = Number(trimmed);
+					const candidate = !trimmed ? this.options.defaults[key] : isNumber && !isNaN(parsed) ? parsed : trimmed;
+					// Values the block would reject are kept out of it, with the reason shown.
+					const issue = validateSettings({ [key]: candidate }, this.options.schema).issues[0];
+					input.inputEl.toggleClass("ms-builder-invalid", !!issue);
+					setting.setDesc(issue ? issue.message + (issue.suggestion ? ` Did you mean ${issue.suggestion}?` : "") : "");
+					if (!issue) update(key, candidate);
+				})
+			);
+		};
+
+		if (this.options.presetNames.length > 0) {
+			new Setting(containerEl).setName("Preset").addDropdown(menu => {
+				menu.addOption("", "None");
+				this.options.presetNames.forEach(name => menu.addOption(name, name));
+				menu.setValue("").onChange(value => update("preset", value || undefined));
+			});
+		}
+		text("width", "Width");
+		text("height", "Height");
+		dropdown("layout", "Layout", this.options.layouts);
+		text("columns", "Gallery columns", true);
+		toggle("carouselShowThumbnails", "Show thumbnails");
+		dropdown("thumbnailPosition", "Thumbnail position", ["bottom", "top", "left", "right"]);
+		dropdown("captionMode", "Caption position", ["overlay", "below"]);
+		dropdown("transitionEffect", "Transition", this.options.transitionEffects);
+		text("slideshowSpeed", "Slideshow seconds (0 = off)", true);
+		toggle("compareMode", "Compare mode");
+		toggle("interactiveNotes", "Interactive notes");
+		toggle("recursive", "Include subfolders");
+		dropdown("sort", "Folder sort", this.options.sortModes);
+		dropdown("order", "Folder order", ["asc", "desc"]);
+	}
+}
@@ -0,0 +1,167 @@
+import { SlideAttributes, formatSlideAttributes, parseMediaFragment, parseSlideAttributes } from "./slideAttributes";
+
+export interface SliderEntry {
+	path: string;
+	caption: string | null;
+	/** Compare-mode suffix such as `1-2` (group 1, second image). */
+	compareGroup: string | null;
+	attributes: SlideAttributes | null;
+}
+
+/**
+ * Parses one entry line of a media-slider block: `![[path|caption]]`, `![[path|caption||1-1]]`,
+ * `![caption](path)`, `![alt](path | caption)` or a bare path, each optionally followed by a
+ * `{...}` attribute block. A `#t=start,end` fragment on the path becomes the `start` and `end`
+ * attributes; values in the attribute block take precedence.
+ * @param rawLine - One source line.
+ * @returns The entry, null for a blank line, and a message per rejected attribute.
+ */
+export function parseSliderEntry(rawLine: string): { entry: SliderEntry | null; errors: string[] } {
+	const result = parseEntryLine(rawLine);
+	const fragment = result.entry ? parseMediaFragment(result.entry.path) : null;
+	if (!result.entry || !fragment) return result;
+
+	const entry = { ...result.entry, path: fragment.path };
+	const errors = [...result.errors];
+	if (fragment.error) {
+		errors.push(fragment.error);
+		return { entry, errors };
+	}
+	const attributes: SlideAttributes = { ...entry.attributes };
+	if (attributes.start === undefined && fragment.start !== undefined) attributes.start = fragment.start;
+	if (attributes.end === undefined && fragment.end !== undefined) attributes.end = fragment.end;
+	if (attributes.start !== undefined && attributes.end !== undefined && attributes.end <= attributes.start) {
+		errors.push(`"end" (${attributes.end}s) must be after "start" (${attributes.start}s).`);
+		delete attributes.end;
+	}
+	entry.attributes = Object.keys(attributes).length > 0 ? attributes : null;
+	return { entry, errors };
+}
+
+const parseEntryLine = (rawLine: string): { entry: SliderEntry | null; errors: string[] } => {
+	const { line, attributes, errors } = parseSlideAttributes(rawLine);
+
+	const markdownMatch = line.match(/!?\[(.*?)\]\((.*?)(?:\s*\|\s*(.*?))?\)/);
+	if (markdownMatch) {
+		const caption = markdownMatch[3] ? markdownMatch[3].trim() :
+			(markdownMatch[1] ? markdownMatch[1].trim() : null);
+		return { entry: { path: markdownMatch[2].trim(), caption, compareGroup: null, attributes }, errors };
+	}
+
+	const compareModeMatch = line.match(/!?\[\[(.*?)(?:\|(.*?))?\s*\|\|\s*([\w\d-]+)\s*\]\]/);
+	if (compareModeMatch) {
+		return {
+			entry: {
+				path: compareModeMatch[1].trim(),
+				caption: compareModeMatch[2] ? compareModeMatch[2].trim() : null,
+				compareGroup: compareModeMatch[3].trim(),
+				attributes
+			},
+			errors
+		};
+	}
+
+	const match = line.match(/!?\[\[(.*?)(?:\|(.*?))?\]\]/);
+	if (match) {
+		return {
+			entry: { path: match[1].trim(), caption: match[2] ? match[2].trim() : null, compareGroup: null, attributes },
+			errors
+		};
+	}
+
+	if (line.trim()) {
+		return { entry: { path: line.trim(), caption: null, compareGroup: null, attributes }, errors };
+	}
+	return { entry: null, errors };
+};
+
+/**
+ * Formats an entry as an embed line that {@link parseSliderEntry} reads back unchanged.
+ * @param entry - The entry to format.
+ * @returns The line, e.g. `![[clip.mp4|Demo]] {start=12 muted}`.
+ */
+export function formatSliderEntry(entry: SliderEntry): string {
+	let inner = entry.path;
+	if (entry.caption) inner += `|${entry.caption}`;
+	if (entry.compareGroup) inner += `||${entry.compareGroup}`;
+	const attributes = entry.attributes ? formatSlideAttributes(entry.attributes) : "";
+	return `![[${inner}]]${attributes ? ` ${attributes}` : ""}`;
+}
+
+const formatYamlValue = (value: unknown): string => {
+	if (typeof value === "string") {
+		return /^[\w./%-]+$/.test(value) && !/^(true|false|null|yes|no|on|off|[\d.]+)$/i.test(value)
+			? value
+			: JSON.stringify(value);
+	}
+	return String(value);
+};
+
+const formatYamlEntry = (key: string, value: unknown): string[] => {
+	if (Array.isArray(value)) {
+		return [`${key}:`, ...value.map(item => `  - ${formatYamlValue(item)}`)];
+	}
+	if (value !== null && typeof value === "object") {
+		return [`${key}:`, ...Object.entries(value).map(([nestedKey, nestedValue]) => `  ${nestedKey}: ${formatYamlValue(nestedValue)}`)];
+	}
+	return [`${key}: ${formatYamlValue(value)}`];
+};
+
+/**
+ * Builds the full text of a media-slider code block.
+ * @param settings - YAML header options; omitted when empty. Lists and nested objects are supported.
+ * @param lines - Entry lines, in order.
+ * @returns The fenced block, ending with a newline.
+ */
+export function formatSliderBlock(settings: Record<string, unknown>, lines: string[]): string {
+	const header: string[] = [];
+	for (const [key, value] of Object.entries(settings)) {
+		if (value === undefined || value === null) continue;
+		header.push(...formatYamlEntry(key, value));
+	}
+
+	const body = header.length > 0 ? ["---", ...header, "---", ...lines] : lines;
+	return ["```media-slider", ...body, "```", ""].join("\n");
+}
+
+/**
+ * Finds the YAML header at the top of a block body.
+ * @param body - The lines between the fences.
+ * @returns The lines of the opening and closing `---`, or null when the block has no header.
+ */
+export function findSliderHeader(body: string[]): { start: number; end: number } | null {
+	const start = body.findIndex(line => line.trim());
+	if (start === -1 || body[start].trim() !== "---") return null;
+	const end = body.findIndex((line, index) => index > start && line.trim() === "---");
+	return end === -1 ? null : { start, end };
+}
+
+/**
+ * Sets top-level options in the YAML header of a block body, replacing any existing value of each
+ * key (including its nested lines) and creating the header when there is none. Other lines of the
+ * header are left as written.
+ * @param body - The lines between the fences.
+ * @param values - The options to set.
+ * @returns The new body.
+ */
+export function setSliderHeaderValues(body: string[], values: Record<string, unknown>): string[] {
+	const keys = Object.keys(values);
+	const added = keys.flatMap(key => formatYamlEntry(key, values[key]));
+	const header = findSliderHeader(body);
+	if (!header) {
+		return ["---", ...added, "---", ...body];
+	}
+
+	const kept: string[] = [];
+	let skipping = false;
+	for (const line of body.slice(header.start + 1, header.end)) {
+		const keyMatch = line.match(/^([\w-]+)\s*:/);
+		if (keyMatch) {
+			skipping = keys.includes(keyMatch[1]);
+		} else if (line.trim() && !/^\s/.test(line) && !line.trim().startsWith("-")) {
+			skipping = false;
+		}
+		if (!skipping) kept.push(line);
+	}
+	return [...body.slice(0, header.start + 1), ...kept, ...added, ...body.slice(header.end)];
+}
@@ -0,0 +1,101 @@
+/**
+ * Times the slides of a slideshow. Each slide gets its own duration; the countdown can be held
+ * for several reasons at once (hover, focus, the pause button, playing media) and carries on
+ * from where it stopped once every hold is released.
+ */
+export class SlideshowTimer {
+	private onElapsed: () => void;
+	private onProgress: (fraction: number) => void;
+	private running = false;
+	private holds = new Set<string>();
+	/** Time for the current slide in ms; 0 when the slide is not timed. */
+	private duration = 0;
+	private remaining = 0;
+	private startedAt = 0;
+	private timeout: number | null = null;
+	private frame: number | null = null;
+
+	/**
+	 * @param onElapsed - Called when the current slide's time is up.
+	 * @param onProgress - Called with the elapsed part of the slide's time, from 0 to 1.
+	 */
+	constructor(onElapsed: () => void, onProgress: (fraction: number) => void) {
+		this.onElapsed = onElapsed;
+		this.onProgress = onProgress;
+	}
+
+	get isRunning(): boolean {
+		return this.running;
+	}
+
+	isHeld(reason: string): boolean {
+		return this.holds.has(reason);
+	}
+
+	/** Starts the slideshow, timing the current slide from the beginning. */
+	start(): void {
+		this.running = true;
+		this.remaining = this.duration;
+		this.tick();
+	}
+
+	stop(): void {
+		this.running = false;
+		this.clear();
+		this.onProgress(0);
+	}
+
+	/**
+	 * Begins timing a new slide.
+	 * @param seconds - The slide's time, or null for a slide that moves on by itself.
+	 */
+	restart(seconds: number | null): void {
+		this.duration = seconds === null ? 0 : seconds * 1000;
+		this.remaining = this.duration;
+		this.tick();
+	}
+
+	hold(reason: string): void {
+		if (this.holds.has(reason)) return;
+		this.holds.add(reason);
+		this.tick();
+	}
+
+	release(reason: string): void {
+		if (this.holds.delete(reason)) this.tick();
+	}
+
+	/** Puts the timer in the state its flags call for: counting down, or frozen. */
+	private tick(): void {
+		if (this.timeout !== null) {
+			// Bank the time that passed while counting down.
+			this.remaining = Math.max(0, this.remaining - (Date.now() - this.startedAt));
+		}
+		this.clear();
+		this.onProgress(this.duration > 0 ? 1 - this.remaining / this.duration : 0);
+		if (!this.running || this.holds.size > 0 || this.duration === 0) return;
+
+		this.startedAt = Date.now();
+		this.timeout = window.setTimeout(() => {
+			this.timeout = null;
+			this.clear();
+			this.remaining = 0;
+			this.onProgress(1);
+			this.onElapsed();
+		}, this.remaining);
+
+		const animate = () => {
+			const left = this.remaining - (Date.now() - this.startedAt);
+			this.onProgress(Math.min(1, 1 - left / this.duration));
+			this.frame = window.requestAnimationFrame(animate);
+		};
+		this.frame = window.requestAnimationFrame(animate);
+	}
+
+	private clear(): void {
+		if (this.timeout !== null) window.clearTimeout(this.timeout);
+		if (this.frame !== null) window.cancelAnimationFrame(this.frame);
+		this.timeout = null;
+		this.frame = null;
+	}
+}
@@ -0,0 +1,36 @@
+/**
+ * Creates a gate that runs async tasks with at most `limit` of them in flight. Tasks beyond the
+ * limit wait and start in the order they were queued.
+ * @param limit - The number of tasks that may run at once.
+ * @returns A function that queues a task and settles like it.
+ */
+export function createTaskLimiter(limit: number): <T>(task: () => Promise<T>) => Promise<T> {
+	let running = 0;
+	const waiting: (() => void)[] = [];
+
+	const release = () => {
+		running--;
+		waiting.shift()?.();
+	};
+
+	return <T>(task: () => Promise<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+		const start = () => {
+			running++;
+			Promise.resolve().then(task).then(
+				value => {
+					release();
+					resolve(value);
+				},
+				error => {
+					release();
+					reject(error);
+				}
+			);
+		};
+		if (running < limit) {
+			start();
+		} else {
+			waiting.push(start);
+		}
+	});
+}
@@ -0,0 +1,222 @@
+import { DataAdapter, debounce } from "obsidian";
+
+interface CacheEntry {
+	/** Name of the thumbnail file in the cache folder. */
+	file: string;
+	/** Size of the thumbnail file in bytes. */
+	size: number;
+	/** When the thumbnail was last shown, for evicting the least recently used first. */
+	lastUsed: number;
+}
+
+interface CacheIndex {
+	version: 1;
+	entries: Record<string, CacheEntry>;
+}
+
+const INDEX_FILE = "index.json";
+
+/** A short, stable file name for a cache key. Names that collide get a numbered suffix in {@link ThumbnailCache.put}. */
+function hashKey(key: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < key.length; i++) {
+		const code = key.charCodeAt(i);
+		h1 = Math.imul(h1 ^ code, 2654435761);
+		h2 = Math.imul(h2 ^ code, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (h2 >>> 0).toString(16).padStart(8, "0") + (h1 >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Builds the cache key of a thumbnail. The file's modification time and size are part of the
+ * key, so an edited file never shows its old thumbnail.
+ * @param path - Vault path of the file, or its URL.
+ * @param mtime - Modification time, or 0 for remote files.
+ * @param size - File size in bytes, or 0 for remote files.
+ * @param variant - What sets this thumbnail apart from others of the file, such as a video frame's time.
+ */
+export function thumbnailKey(path: string, mtime: number, size: number, variant: string): string {
+	return `${path}|${mtime}|${size}|${variant}`;
+}
+
+/**
+ * Keeps generated thumbnails as small WebP files in a folder, with an index of their keys, sizes
+ * and last use. When the folder grows past its size cap the least recently used thumbnails are
+ * removed.
+ */
+export class ThumbnailCache {
+	private adapter: DataAdapter;
+	private dir: string;
+	private maxBytes: number;
+	private onRemove: (key: string) => void;
+	private entries: Record<string, CacheEntry> = {};
+	private loaded: Promise<void> | null = null;
+	private requestSave = debounce(() => void this.saveIndex(), 2000, true);
+
+	/**
+	 * @param adapter - The vault adapter, which also reaches the plugin folder.
+	 * @param dir - Folder of the cache, relative to the vault root.
+	 * @param maxBytes - Size cap; 0 turns the cache off.
+	 * @param onRemove - Called with the key of every thumbnail whose file is deleted, by eviction
+	 * or invalidation, so URLs handed out for it can be dropped.
+	 */
+	constructor(adapter: DataAdapter, dir: string, maxBytes: number, onRemove: (key: string) => void = () => undefined) {
+		this.adapter = adapter;
+		this.dir = dir;
+		this.maxBytes = maxBytes;
+		this.onRemove = onRemove;
+	}
+
+	get enabled(): boolean {
+		return this.maxBytes > 0;
+	}
+
+	/** Bytes taken by the cached thumbnails. */
+	get totalSize(): number {
+		return Object.values(this.entries).reduce((total, entry) => total + entry.size, 0);
+	}
+
+	get count(): number {
+		return Object.keys(this.entries).length;
+	}
+
+	/** Reads the index; called once, before the first lookup. */
+	load(): Promise<void> {
+		if (!this.loaded) {
+			this.loaded = (async () => {
+				try {
+					const indexPath = `${this.dir}/${INDEX_FILE}`;
+					if (!(await this.adapter.exists(indexPath))) return;
+					const index = JSON.parse(await this.adapter.read(indexPath)) as CacheIndex;
+					if (index.version === 1 && index.entries) this.entries = index.entries;
+				} catch (error) {
+					console.warn("Media Slider: thumbnail cache index could not be read, starting empty.", error);
+					this.entries = {};
+				}
+			})();
+		}
+		return this.loaded;
+	}
+
+	/**
+	 * Looks up a thumbnail and marks it as used.
+	 * @returns A URL for the thumbnail file, or null when it is not cached.
+	 */
+	async get(key: string): Promise<string | null> {
+		await this.load();
+		const entry = this.entries[key];
+		if (!entry) return null;
+		entry.lastUsed = Date.now();
+		this.requestSave();
+		return this.adapter.getResourcePath(`${this.dir}/${entry.file}`);
+	}
+
+	/**
+	 * Stores a thumbnail, then evicts the least recently used ones past the size cap.
+	 * @returns A URL for the stored thumbnail file, or null when it alone is over the cap and was
+	 * not stored.
+	 */
+	async put(key: string, data: ArrayBuffer): Promise<string | null> {
+		await this.load();
+		if (data.byteLength > this.maxBytes) return null;
+		if (!(await this.adapter.exists(this.dir))) await this.adapter.mkdir(this.dir);
+		const file = this.entries[key]?.file ?? this.freeFileName(key);
+		await this.adapter.writeBinary(`${this.dir}/${file}`, data);
+		this.entries[key] = { file, size: data.byteLength, lastUsed: Date.now() };
+		await this.evict(key);
+		this.requestSave();
+		return this.adapter.getResourcePath(`${this.dir}/${file}`);
+	}
+
+	/**
+	 * Drops every thumbnail of a file, after it changed, moved or was deleted.
+	 * @param path - Vault path of the file.
+	 */
+	async invalidate(path: string): Promise<void> {
+		await this.load();
+		const keys = Object.keys(this.entries).filter(key => key.startsWith(`${path}|`));
+		if (keys.length === 0) return;
+		await this.remove(keys);
+		this.requestSave();
+	}
+
+	/**
+	 * Changes the size cap, evicting thumbnails if it shrank.
+	 * @param maxBytes - The new cap; 0 turns the cache off and empties it.
+	 */
+	async setMaxBytes(maxBytes: number): Promise<void> {
+		this.maxBytes = maxBytes;
+		await this.evict();
+		this.requestSave();
+	}
+
+	/** Removes every cached thumbnail. */
+	async clear(): Promise<void> {
+		await this.load();
+		this.entries = {};
+		if (await this.adapter.exists(this.dir)) await this.adapter.rmdir(this.dir, true);
+	}
+
+	/** Writes a pending index change now, e.g. when the plugin unloads. */
+	flush(): void {
+		this.requestSave.run();
+	}
+
+	/**
+	 * Removes the least recently used thumbnails until the cache fits its cap.
+	 * @param keep - A thumbnail just stored, which stays even if others were used in the same instant.
+	 */
+	private async evict(keep?: string): Promise<void> {
+		let total = this.totalSize;
+		if (total <= this.maxBytes) return;
+		const oldestFirst = Object.entries(this.entries)
+			.filter(([key]) => key !== keep)
+			.sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+		const evicted: string[] = [];
+		for (const [key, entry] of oldestFirst) {
+			if (total <= this.maxBytes) break;
+			evicted.push(key);
+			total -= entry.size;
+		}
+		await this.remove(evicted);
+	}
+
+	/** A file name for a new key that no other entry uses, even when their hashes collide. */
+	private freeFileName(key: string): string {
+		const taken = new Set(Object.values(this.entries).map(entry => entry.file));
+		const hash = hashKey(key);
+		let file = `${hash}.webp`;
+		for (let n = 1; taken.has(file); n++) file = `${hash}-${n}.webp`;
+		return file;
+	}
+
+	private async remove(keys: string[]): Promise<void> {
+		for (const key of keys) {
+			const entry = this.entries[key];
+			delete this.entries[key];
+			if (!entry) continue;
+			this.onRemove(key);
+			try {
+				await this.adapter.remove(`${this.dir}/${entry.file}`);
+			} catch {
+				// Already gone, e.g. the folder was cleared by hand.
+			}
+		}
+	}
+
+	private async saveIndex(): Promise<void> {
+		try {
+			if (!(await this.adapter.exists(this.dir))) {
+				if (this.count === 0) return;
+				await this.adapter.mkdir(this.dir);
+			}
+			const index: CacheIndex = { version: 1, entries: this.entries };
+			await this.adapter.write(`${this.dir}/${INDEX_FILE}`, JSON.stringify(index));
+		} catch (error) {
+			console.error("Media Slider: failed to save the thumbnail cache index:", error);
+		}
+	}
+}
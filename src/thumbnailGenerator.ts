@@ -0,0 +1,328 @@
+import { loadPdfJs } from "obsidian";
+
+/** Largest size of a generated preview; big enough for gallery tiles, small enough to keep many. */
+const PREVIEW_WIDTH = 480;
+const PREVIEW_HEIGHT = 360;
+
+/** The parts of pdf.js used here, as loaded by Obsidian. */
+interface PdfJs {
+	getDocument(source: { data: Uint8Array }): { promise: Promise<PdfDocument> };
+}
+
+interface PdfDocument {
+	getPage(pageNumber: number): Promise<PdfPage>;
+	destroy(): Promise<void>;
+}
+
+interface PdfPage {
+	getViewport(options: { scale: number }): { width: number; height: number };
+	render(options: { canvasContext: CanvasRenderingContext2D; viewport: { width: number; height: number } }): { promise: Promise<void> };
+}
+
+export interface CoverArt {
+	mime: string;
+	data: ArrayBuffer;
+}
+
+/** Where a finder located the picture inside the file. */
+interface PictureRange {
+	mime: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Draws an image source scaled down to preview size.
+ * @param source - What to draw.
+ * @param width - Its natural width.
+ * @param height - Its natural height.
+ */
+function drawPreview(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+	const scale = Math.min(1, PREVIEW_WIDTH / width, PREVIEW_HEIGHT / height);
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.max(1, Math.round(width * scale));
+	canvas.height = Math.max(1, Math.round(height * scale));
+	const ctx = canvas.getContext("2d");
+	if (!ctx) throw new Error("Canvas context not available");
+	ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+	return canvas;
+}
+
+/** Encodes a preview as WebP, which keeps transparency and stays small on disk. */
+function encodePreview(canvas: HTMLCanvasElement): Promise<Blob> {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The preview could not be encoded")), "image/webp", 0.8);
+	});
+}
+
+/**
+ * Scales an image down to thumbnail size.
+ * @param src - The image URL.
+ * @returns The thumbnail as a WebP image.
+ */
+export async function renderImageThumbnail(src: string): Promise<Blob> {
+	const img = new Image();
+	img.crossOrigin = "anonymous";
+	img.src = src;
+	await img.decode();
+	return encodePreview(drawPreview(img, img.naturalWidth, img.naturalHeight));
+}
+
+/**
+ * Captures one frame of a video.
+ * @param src - The video URL.
+ * @param offset - Time of the frame in seconds; clamped to the video's length.
+ * @returns The frame as a WebP image.
+ */
+export async function captureVideoFrame(src: string, offset: number): Promise<Blob> {
+	return encodePreview(await drawVideoFrame(src, offset));
+}
+
+function drawVideoFrame(src: string, offset: number): Promise<HTMLCanvasElement> {
+	return new Promise((resolve, reject) => {
+		const video = document.createElement("video");
+		video.muted = true;
+		video.preload = "auto";
+		// Without CORS a remote frame taints the canvas, so ask for it; local files are unaffected.
+		video.crossOrigin = "anonymous";
+
+		const timeout = window.setTimeout(() => finish(new Error("Timed out loading the video")), 15000);
+		const finish = (error: Error | null, frame?: HTMLCanvasElement) => {
+			window.clearTimeout(timeout);
+			video.removeAttribute("src");
+			video.load();
+			if (error || frame === undefined) {
+				reject(error ?? new Error("No frame captured"));
+			} else {
+				resolve(frame);
+			}
+		};
+
+		video.addEventListener("loadedmetadata", () => {
+			const end = isFinite(video.duration) ? Math.max(0, video.duration - 0.1) : offset;
+			video.currentTime = Math.min(offset, end);
+		}, { once: true });
+		video.addEventListener("seeked", () => {
+			try {
+				finish(null, drawPreview(video, video.videoWidth, video.videoHeight));
+			} catch (error) {
+				finish(error instanceof Error ? error : new Error(String(error)));
+			}
+		}, { once: true });
+		video.addEventListener("error", () => finish(new Error("The video could not be loaded")), { once: true });
+		video.src = src;
+	});
+}
+
+/**
+ * Renders the first page of a PDF.
+ * @param data - The PDF file.
+ * @returns The page as a WebP image.
+ */
+export async function renderPdfFirstPage(data: ArrayBuffer): Promise<Blob> {
+	const pdfjs = await loadPdfJs() as PdfJs;
+	const doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+	try {
+		const page = await doc.getPage(1);
+		const natural = page.getViewport({ scale: 1 });
+		// Rendered at twice the preview size, then scaled down, for sharper text.
+		const viewport = page.getViewport({ scale: 2 * Math.min(PREVIEW_WIDTH / natural.width, PREVIEW_HEIGHT / natural.height) });
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.round(viewport.width);
+		canvas.height = Math.round(viewport.height);
+		const ctx = canvas.getContext("2d");
+		if (!ctx) throw new Error("Canvas context not available");
+		ctx.fillStyle = "#fff";
+		ctx.fillRect(0, 0, canvas.width, canvas.height);
+		await page.render({ canvasContext: ctx, viewport }).promise;
+		return await encodePreview(drawPreview(canvas, canvas.width, canvas.height));
+	} finally {
+		await doc.destroy();
+	}
+}
+
+const readText = (bytes: Uint8Array, start: number, length: number): string =>
+	String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+	((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readSynchsafe = (bytes: Uint8Array, offset: number): number =>
+	(bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+/** Finds the end of a null-terminated string, which is two zero bytes in UTF-16 encodings. */
+const skipTerminated = (bytes: Uint8Array, offset: number, wide: boolean): number => {
+	if (!wide) {
+		while (offset < bytes.length && bytes[offset] !== 0) offset++;
+		return offset + 1;
+	}
+	while (offset + 1 < bytes.length && (bytes[offset] !== 0 || bytes[offset + 1] !== 0)) offset += 2;
+	return offset + 2;
+};
+
+/** Reads the first APIC frame of an ID3v2.3 or 2.4 tag, as found at the start of MP3 files. */
+function findId3Picture(bytes: Uint8Array): PictureRange | null {
+	if (readText(bytes, 0, 3) !== "ID3") return null;
+	const version = bytes[3];
+	if (version !== 3 && version !== 4) return null;
+	const tagEnd = Math.min(bytes.length, 10 + readSynchsafe(bytes, 6));
+	let offset = 10;
+	if (bytes[5] & 0x40) {
+		// Extended header: its size counts itself in v2.4 but not in v2.3.
+		offset += version === 4 ? readSynchsafe(bytes, offset) : readUint32(bytes, offset) + 4;
+	}
+
+	while (offset + 10 <= tagEnd) {
+		const id = readText(bytes, offset, 4);
+		const size = version === 4 ? readSynchsafe(bytes, offset + 4) : readUint32(bytes, offset + 4);
+		if (!/^[A-Z0-9]{4}$/.test(id) || size <= 0) break;
+		const start = offset + 10;
+		if (id === "APIC") {
+			const end = Math.min(start + size, tagEnd);
+			const wide = bytes[start] === 1 || bytes[start] === 2;
+			const mimeEnd = skipTerminated(bytes, start + 1, false);
+			const mime = readText(bytes, start + 1, mimeEnd - start - 2) || "image/jpeg";
+			// Skip the picture type byte, then the description.
+			const dataStart = skipTerminated(bytes, mimeEnd + 1, wide);
+			return { mime: mime.includes("/") ? mime : `image/${mime.toLowerCase()}`, start: dataStart, end };
+		}
+		offset = start + size;
+	}
+	return null;
+}
+
+/** Reads the PICTURE metadata block of a FLAC file. */
+function findFlacPicture(bytes: Uint8Array): PictureRange | null {
+	if (readText(bytes, 0, 4) !== "fLaC") return null;
+	let offset = 4;
+	while (offset + 4 <= bytes.length) {
+		const header = bytes[offset];
+		const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+		const start = offset + 4;
+		if ((header & 0x7f) === 6) {
+			let cursor = start + 4;
+			const mimeLength = readUint32(bytes, cursor);
+			const mime = readText(bytes, cursor + 4, mimeLength);
+			cursor += 4 + mimeLength;
+			cursor += 4 + readUint32(bytes, cursor);
+			// Width, height, colour depth and palette size.
+			cursor += 16;
+			const dataLength = readUint32(bytes, cursor);
+			return { mime, start: cursor + 4, end: Math.min(bytes.length, cursor + 4 + dataLength) };
+		}
+		if (header & 0x80) break;
+		offset = start + length;
+	}
+	return null;
+}
+
+/** Reads the `covr` item of an MP4/M4A file, at moov/udta/meta/ilst/covr/data. */
+function findMp4Cover(bytes: Uint8Array): PictureRange | null {
+	const path = ["moov", "udta", "meta", "ilst", "covr", "data"];
+	const search = (start: number, end: number, depth: number): PictureRange | null => {
+		let offset = start;
+		while (offset + 8 <= end) {
+			const size = readUint32(bytes, offset);
+			const type = readText(bytes, offset + 4, 4);
+			if (size < 8) return null;
+			const boxEnd = Math.min(offset + size, end);
+			if (type === path[depth]) {
+				if (type === "data") {
+					const kind = readUint32(bytes, offset + 8) & 0xffffff;
+					return { mime: kind === 14 ? "image/png" : "image/jpeg", start: offset + 16, end: boxEnd };
+				}
+				// The meta box has four bytes of version and flags before its children.
+				const childStart = offset + 8 + (type === "meta" ? 4 : 0);
+				return search(childStart, boxEnd, depth + 1);
+			}
+			offset = boxEnd;
+		}
+		return null;
+	};
+	if (readText(bytes, 4, 4) !== "ftyp") return null;
+	return search(0, bytes.length, 0);
+}
+
+/**
+ * Finds the cover art embedded in an audio file: an ID3v2 picture (MP3), a FLAC picture block or
+ * an MP4 `covr` item (M4A).
+ * @param data - The audio file.
+ * @returns The image, or null when the file has none.
+ */
+export function findCoverArt(data: ArrayBuffer): CoverArt | null {
+	const bytes = new Uint8Array(data);
+	try {
+		const range = findId3Picture(bytes) ?? findFlacPicture(bytes) ?? findMp4Cover(bytes);
+		return range && range.end > range.start ? { mime: range.mime, data: data.slice(range.start, range.end) } : null;
+	} catch {
+		// A damaged tag is treated like a missing one.
+		return null;
+	}
+}
+
+/**
+ * Draws the waveform of an audio file as bars of peak loudness.
+ * @param data - The audio file.
+ * @param color - Colour of the bars.
+ * @returns The waveform as a WebP image.
+ */
+export async function drawWaveform(data: ArrayBuffer, color: string): Promise<Blob> {
+	// An offline context decodes without opening an audio device.
+	const context = new OfflineAudioContext(1, 1, 8000);
+	const buffer = await context.decodeAudioData(data.slice(0));
+	const samples = buffer.getChannelData(0);
+
+	const canvas = document.createElement("canvas");
+	canvas.width = PREVIEW_WIDTH;
+	canvas.height = Math.round(PREVIEW_WIDTH * 0.5);
+	const ctx = canvas.getContext("2d");
+	if (!ctx) throw new Error("Canvas context not available");
+	ctx.fillStyle = "#1e1e1e";
+	ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+	const bars = 96;
+	const barWidth = canvas.width / bars;
+	const perBar = Math.max(1, Math.floor(samples.length / bars));
+	const peaks: number[] = [];
+	for (let bar = 0; bar < bars; bar++) {
+		let peak = 0;
+		const end = Math.min(samples.length, (bar + 1) * perBar);
+		// Sampling every few values is plenty for a picture and keeps long files fast.
+		for (let i = bar * perBar; i < end; i += 16) {
+			peak = Math.max(peak, Math.abs(samples[i]));
+		}
+		peaks.push(peak);
+	}
+	const loudest = Math.max(...peaks, 0.01);
+
+	ctx.fillStyle = color;
+	peaks.forEach((peak, bar) => {
+		const height = Math.max(2, (peak / loudest) * canvas.height * 0.8);
+		ctx.fillRect(bar * barWidth + 1, (canvas.height - height) / 2, Math.max(1, barWidth - 2), height);
+	});
+	return encodePreview(canvas);
+}
+
+/**
+ * Makes a preview for an audio file: its cover art when it has one, its waveform otherwise.
+ * @param data - The audio file.
+ * @param color - Colour of the waveform bars.
+ * @returns A WebP image.
+ */
+export async function renderAudioPreview(data: ArrayBuffer, color: string): Promise<Blob> {
+	const cover = findCoverArt(data);
+	if (cover) {
+		const url = URL.createObjectURL(new Blob([cover.data], { type: cover.mime }));
+		try {
+			const img = new Image();
+			img.src = url;
+			await img.decode();
+			return await encodePreview(drawPreview(img, img.naturalWidth, img.naturalHeight));
+		} catch {
+			// Unreadable cover art: fall through to the waveform.
+		} finally {
+			URL.revokeObjectURL(url);
+		}
+	}
+	return drawWaveform(data, color);
+}
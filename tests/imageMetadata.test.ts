@@ -0,0 +1,71 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { captionVariables, fillCaption, formatFileSize, hasCaptionVariables, readImageMetadata } from "../src/imageMetadata";
+
+describe("fillCaption", () => {
+	const variables = { camera: "Canon EOS R5", date: "2024-05-01", aperture: "f/2.8", name: "sunset" };
+
+	it("fills known variables", () => {
+		assert.equal(fillCaption("{name}: {camera} at {aperture}", variables), "sunset: Canon EOS R5 at f/2.8");
+	});
+
+	it("leaves unknown names in braces alone", () => {
+		assert.equal(fillCaption("{camera} {not-a-variable} {other}", variables), "Canon EOS R5 {not-a-variable} {other}");
+	});
+
+	it("drops the separators around empty variables", () => {
+		assert.equal(fillCaption("{camera}, {lens} - {date}", variables), "Canon EOS R5 - 2024-05-01");
+		assert.equal(fillCaption("{lens}, {camera}", variables), "Canon EOS R5");
+		assert.equal(fillCaption("{camera} · {lens}", variables), "Canon EOS R5");
+		assert.equal(fillCaption("{lens} | {iso} | {date}", variables), "2024-05-01");
+		assert.equal(fillCaption("{lens}, {iso}", variables), "");
+	});
+
+	it("collapses the spaces left by empty variables", () => {
+		assert.equal(fillCaption("{camera} {lens} {date}", variables), "Canon EOS R5 2024-05-01");
+	});
+});
+
+describe("hasCaptionVariables", () => {
+	it("tells captions with variables from plain ones", () => {
+		assert.equal(hasCaptionVariables("Shot on {camera}"), true);
+		assert.equal(hasCaptionVariables("{filename}"), true);
+		assert.equal(hasCaptionVariables("A {plain} caption"), false);
+		assert.equal(hasCaptionVariables("No braces"), false);
+	});
+});
+
+describe("captionVariables", () => {
+	it("adds file values and joins lists", () => {
+		const variables = captionVariables({ width: 4000, height: 3000, iso: 100, keywords: ["sea", "dusk"] }, { name: "a.jpg", basename: "a", size: 2048 });
+		assert.deepEqual(variables, {
+			filename: "a.jpg", name: "a", size: "2 KB", dimensions: "4000×3000",
+			width: "4000", height: "3000", iso: "100", keywords: "sea, dusk"
+		});
+	});
+});
+
+describe("formatFileSize", () => {
+	it("picks a unit", () => {
+		assert.equal(formatFileSize(512), "512 B");
+		assert.equal(formatFileSize(1536), "2 KB");
+		assert.equal(formatFileSize(5 * 1024 * 1024 + 100000), "5.1 MB");
+	});
+});
+
+describe("readImageMetadata", () => {
+	it("reads the pixel size of a PNG", () => {
+		const bytes = new Uint8Array(33);
+		const view = new DataView(bytes.buffer);
+		bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+		view.setUint32(8, 13);
+		bytes.set([0x49, 0x48, 0x44, 0x52], 12);
+		view.setUint32(16, 640);
+		view.setUint32(20, 480);
+		assert.deepEqual(readImageMetadata(bytes.buffer), { width: 640, height: 480 });
+	});
+
+	it("gives nothing for unknown files", () => {
+		assert.deepEqual(readImageMetadata(new Uint8Array([1, 2, 3]).buffer), {});
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkPathPattern, createPathFilter } from "../src/pathFilter";
+
+const keeps = (include: string[] | null, exclude: string[] | null, relativePath: string, fullPath = `Media/${relativePath}`) =>
+	createPathFilter(include, exclude)(relativePath, fullPath);
+
+describe("createPathFilter", () => {
+	it("keeps everything without patterns", () => {
+		assert.equal(keeps(null, null, "a/b.png"), true);
+		assert.equal(keeps([], [], "b.png"), true);
+	});
+
+	it("matches globs without a slash against the file name at any depth", () => {
+		assert.equal(keeps(["final-*.png"], null, "2024/trip/final-01.png"), true);
+		assert.equal(keeps(["final-*.png"], null, "2024/trip/draft-01.png"), false);
+		assert.equal(keeps(["*.PNG"], null, "shot.png"), true);
+	});
+
+	it("matches globs with a slash against the relative path", () => {
+		assert.equal(keeps(["trip/*.jpg"], null, "trip/a.jpg"), true);
+		assert.equal(keeps(["trip/*.jpg"], null, "trip/day1/a.jpg"), false);
+		assert.equal(keeps(["trip/**/*.jpg"], null, "trip/day1/a.jpg"), true);
+		assert.equal(keeps(["**/raw/*"], null, "raw/a.jpg"), true);
+		assert.equal(keeps(["./trip/?.jpg"], null, "trip/a.jpg"), true);
+	});
+
+	it("supports brace alternatives", () => {
+		const include = ["*.{jpg,png}"];
+		assert.equal(keeps(include, null, "a.png"), true);
+		assert.equal(keeps(include, null, "a.gif"), false);
+	});
+
+	it("drops excluded files unless a negated exclude rescues them", () => {
+		assert.equal(keeps(null, ["drafts/**"], "drafts/a.png"), false);
+		assert.equal(keeps(null, ["drafts/**", "!drafts/keep-*"], "drafts/keep-a.png"), true);
+		assert.equal(keeps(null, ["drafts/**", "!keep-*"], "drafts/keep-a.png"), true);
+		assert.equal(keeps(null, ["drafts/**", "!keep-*"], "drafts/other.png"), false);
+	});
+
+	it("treats a negated include as an exclude", () => {
+		assert.equal(keeps(["!drafts/**"], null, "drafts/a.png"), false);
+		assert.equal(keeps(["!drafts/**"], null, "final/a.png"), true);
+		assert.equal(keeps(["*.png", "!drafts/**"], null, "final/a.jpg"), false);
+	});
+
+	it("tests regexes against the full vault path", () => {
+		assert.equal(keeps(["/^Media\\/2024\\//"], null, "a.png", "Media/2024/a.png"), true);
+		assert.equal(keeps(["/^2024\\//"], null, "2024/a.png", "Media/2024/a.png"), false);
+		assert.equal(keeps(["/\\.PNG$/i"], null, "a.png"), true);
+	});
+
+	it("gives the same answer on every call for regexes with g or y flags", () => {
+		for (const pattern of ["/\\.png$/g", "/\\.png$/y", "/\\.png$/gy"]) {
+			const filter = createPathFilter([pattern], null);
+			assert.deepEqual([1, 2, 3].map(() => filter("a.png", "Media/a.png")), [true, true, true], pattern);
+		}
+	});
+
+	it("ignores invalid regexes", () => {
+		assert.equal(keeps(["/(/"], null, "a.png"), true);
+		assert.equal(keeps(["/(/", "*.jpg"], null, "a.png"), false);
+	});
+});
+
+describe("checkPathPattern", () => {
+	it("accepts globs and valid regexes", () => {
+		assert.equal(checkPathPattern("**/*.png"), null);
+		assert.equal(checkPathPattern("!/\\.png$/i"), null);
+	});
+
+	it("rejects empty patterns and invalid regexes", () => {
+		assert.equal(checkPathPattern("!"), "Empty pattern.");
+		assert.match(checkPathPattern("/(/") ?? "", /^Invalid regular expression/);
+	});
+});
@@ -0,0 +1,215 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	chainReferenceRewriters,
+	createReferenceRewriter,
+	resolveReference,
+	rewriteSliderBlocks,
+	rewriteSliderKey
+} from "../src/renameReferences";
+
+describe("resolveReference", () => {
+	const paths = ["photos/a.jpg", "scans/a.jpg", "deep/nested/b.jpg", "b.jpg"];
+
+	it("prefers the exact path, case-insensitively", () => {
+		assert.equal(resolveReference("photos/a.jpg", "", paths), "photos/a.jpg");
+		assert.equal(resolveReference("PHOTOS/A.jpg", "", paths), "photos/a.jpg");
+		assert.equal(resolveReference("b.jpg", "deep/nested/note.md", paths), "b.jpg");
+	});
+
+	it("then a file in the linking note's folder", () => {
+		assert.equal(resolveReference("a.jpg", "photos/note.md", paths), "photos/a.jpg");
+		assert.equal(resolveReference("a.jpg", "scans/note.md", paths), "scans/a.jpg");
+	});
+
+	it("then the shortest path", () => {
+		assert.equal(resolveReference("a.jpg", "note.md", paths), "scans/a.jpg");
+		assert.equal(resolveReference("a.jpg", "", ["b/a.jpg", "a/a.jpg"]), "a/a.jpg");
+	});
+
+	it("returns null when nothing matches", () => {
+		assert.equal(resolveReference("c.jpg", "", paths), null);
+		assert.equal(resolveReference("oto/a.jpg", "", paths), null);
+	});
+});
+
+describe("createReferenceRewriter", () => {
+	it("rewrites full paths and trailing parts of the path", () => {
+		const rewrite = createReferenceRewriter("media/trip/a.jpg", "media/trip/b.jpg", false);
+		assert.equal(rewrite("media/trip/a.jpg"), "media/trip/b.jpg");
+		assert.equal(rewrite("trip/a.jpg"), "trip/b.jpg");
+		assert.equal(rewrite(" a.jpg "), "b.jpg");
+		assert.equal(rewrite("other.jpg"), null);
+		assert.equal(rewrite("p/a.jpg"), null);
+		assert.equal(rewrite(""), null);
+	});
+
+	it("leaves short references that still resolve after a move", () => {
+		const rewrite = createReferenceRewriter("photos/a.jpg", "archive/a.jpg", false);
+		assert.equal(rewrite("a.jpg"), null);
+		assert.equal(rewrite("photos/a.jpg"), "archive/a.jpg");
+	});
+
+	it("rewrites notes referenced without their extension", () => {
+		const rewrite = createReferenceRewriter("notes/Trip.md", "notes/Journey.md", false);
+		assert.equal(rewrite("Trip"), "Journey");
+		assert.equal(rewrite("notes/Trip"), "notes/Journey");
+		assert.equal(rewrite("Trip.md"), "Journey.md");
+	});
+
+	it("only rewrites short references that pointed at the renamed file", () => {
+		const paths = ["photos/a.jpg", "scans/a.jpg"];
+		const rewrite = createReferenceRewriter("photos/a.jpg", "photos/b.jpg", false, paths);
+		assert.equal(rewrite("a.jpg", "photos/note.md"), "b.jpg");
+		assert.equal(rewrite("a.jpg", "note.md"), null);
+		assert.equal(rewrite("a.jpg", "scans/note.md"), null);
+		assert.equal(rewrite("photos/a.jpg", "scans/note.md"), "photos/b.jpg");
+	});
+
+	it("rewrites everything below a renamed folder", () => {
+		const rewrite = createReferenceRewriter("media/trip", "media/journey", true);
+		assert.equal(rewrite("media/trip"), "media/journey");
+		assert.equal(rewrite("media/trip/"), "media/journey/");
+		assert.equal(rewrite("media/trip/day1/a.jpg"), "media/journey/day1/a.jpg");
+		assert.equal(rewrite("media/trips/a.jpg"), null);
+		assert.equal(rewrite("trip/a.jpg"), null);
+	});
+});
+
+describe("chainReferenceRewriters", () => {
+	it("applies renames in the order they happened", () => {
+		const rewrite = chainReferenceRewriters([
+			createReferenceRewriter("a/x.jpg", "a/y.jpg", false),
+			createReferenceRewriter("a", "b", true)
+		]);
+		assert.equal(rewrite("a/x.jpg"), "b/y.jpg");
+		assert.equal(rewrite("a/z.jpg"), "b/z.jpg");
+		assert.equal(rewrite("x.jpg"), "y.jpg");
+		assert.equal(rewrite("c/x.jpg"), null);
+	});
+
+	it("passes the source note on to each rewriter", () => {
+		const paths = ["photos/a.jpg", "scans/a.jpg"];
+		const rewrite = chainReferenceRewriters([createReferenceRewriter("photos/a.jpg", "photos/b.jpg", false, paths)]);
+		assert.equal(rewrite("a.jpg", "photos/note.md"), "b.jpg");
+		assert.equal(rewrite("a.jpg", "scans/note.md"), null);
+	});
+});
+
+describe("rewriteSliderKey", () => {
+	const rewrite = createReferenceRewriter("photos/a.jpg", "photos/b.jpg", false);
+
+	it("rewrites the media part after a slider id containing dashes", () => {
+		assert.equal(rewriteSliderKey("my-trip-slider-photos/a.jpg|Sunset", rewrite), "my-trip-slider-photos/b.jpg|Sunset");
+		assert.equal(rewriteSliderKey("slider-a.jpg", rewrite), "slider-b.jpg");
+	});
+
+	it("handles media paths that contain dashes", () => {
+		const dashed = createReferenceRewriter("photos/day-1.jpg", "photos/day-2.jpg", false);
+		assert.equal(rewriteSliderKey("slider-1-photos/day-1.jpg|x-y", dashed), "slider-1-photos/day-2.jpg|x-y");
+	});
+
+	it("returns null for keys of other files", () => {
+		assert.equal(rewriteSliderKey("slider-photos/c.jpg|a.jpg", rewrite), null);
+		assert.equal(rewriteSliderKey("nodash", rewrite), null);
+	});
+});
+
+describe("rewriteSliderBlocks", () => {
+	const rewrite = createReferenceRewriter("photos/a.jpg", "photos/b.jpg", false);
+
+	it("rewrites every entry syntax inside a block", () => {
+		const content = [
+			"```media-slider",
+			"![[photos/a.jpg|Cap]]",
+			"![[a.jpg#page|Cap||1-1]]",
+			"![Cap](photos/a.jpg)",
+			"![Cap](<photos/a.jpg> | Caption)",
+			"photos/a.jpg {fit=cover}",
+			"  a.jpg#t=1,2",
+			"![remote](https://example.com/photos/a.jpg)",
+			"photos/c.jpg",
+			"```"
+		].join("\n");
+		assert.equal(rewriteSliderBlocks(content, rewrite), [
+			"```media-slider",
+			"![[photos/b.jpg|Cap]]",
+			"![[b.jpg#page|Cap||1-1]]",
+			"![Cap](photos/b.jpg)",
+			"![Cap](<photos/b.jpg> | Caption)",
+			"photos/b.jpg {fit=cover}",
+			"  b.jpg#t=1,2",
+			"![remote](https://example.com/photos/a.jpg)",
+			"photos/c.jpg",
+			"```"
+		].join("\n"));
+	});
+
+	it("leaves the note outside media-slider blocks alone", () => {
+		const content = [
+			"![[photos/a.jpg]]",
+			"```js",
+			"photos/a.jpg",
+			"```",
+			"~~~media-slider",
+			"photos/a.jpg",
+			"```",
+			"photos/a.jpg",
+			"~~~",
+			"photos/a.jpg"
+		].join("\n");
+		assert.equal(rewriteSliderBlocks(content, rewrite), [
+			"![[photos/a.jpg]]",
+			"```js",
+			"photos/a.jpg",
+			"```",
+			"~~~media-slider",
+			"photos/b.jpg",
+			"```",
+			"photos/b.jpg",
+			"~~~",
+			"photos/a.jpg"
+		].join("\n"));
+	});
+
+	it("rewrites manualOrder in the header and nothing else there", () => {
+		const content = [
+			"```media-slider",
+			"---",
+			"caption: photos/a.jpg",
+			"manualOrder:",
+			"  - photos/a.jpg",
+			"  - \"a.jpg\"",
+			"  - photos/c.jpg",
+			"exclude:",
+			"  - photos/a.jpg",
+			"---",
+			"photos/a.jpg",
+			"---",
+			"```"
+		].join("\n");
+		assert.equal(rewriteSliderBlocks(content, rewrite), [
+			"```media-slider",
+			"---",
+			"caption: photos/a.jpg",
+			"manualOrder:",
+			"  - photos/b.jpg",
+			"  - \"b.jpg\"",
+			"  - photos/c.jpg",
+			"exclude:",
+			"  - photos/a.jpg",
+			"---",
+			"photos/b.jpg",
+			"---",
+			"```"
+		].join("\n"));
+	});
+
+	it("resolves short references from the note's folder", () => {
+		const paths = ["photos/a.jpg", "scans/a.jpg"];
+		const scoped = createReferenceRewriter("photos/a.jpg", "photos/b.jpg", false, paths);
+		const content = "```media-slider\n![[a.jpg]]\n```";
+		assert.equal(rewriteSliderBlocks(content, scoped, "photos/note.md"), "```media-slider\n![[b.jpg]]\n```");
+		assert.equal(rewriteSliderBlocks(content, scoped, "scans/note.md"), content);
+	});
+});
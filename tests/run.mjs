@@ -0,0 +1,28 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import process from "process";
+
+// Bundles each tests/*.test.ts on its own and runs the results once with node's test runner.
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const testFiles = readdirSync(testDir).filter(file => file.endsWith(".test.ts"));
+const outdir = mkdtempSync(path.join(tmpdir(), "media-slider-tests-"));
+
+try {
+	await esbuild.build({
+		entryPoints: testFiles.map(file => path.join(testDir, file)),
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node18",
+		outdir,
+		logLevel: "warning",
+	});
+	const outputs = testFiles.map(file => path.join(outdir, file.replace(/\.ts$/, ".js")));
+	const result = spawnSync(process.execPath, ["--test", ...outputs], { stdio: "inherit" });
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
@@ -0,0 +1,136 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatSlideAttributes, parseMediaFragment, parseSlideAttributes, parseTime } from "../src/slideAttributes";
+import { formatSliderEntry, parseSliderEntry } from "../src/sliderSource";
+
+describe("parseTime", () => {
+	it("reads seconds, minutes and hours", () => {
+		assert.equal(parseTime("12"), 12);
+		assert.equal(parseTime("1.5"), 1.5);
+		assert.equal(parseTime("1:30"), 90);
+		assert.equal(parseTime("1:02:03.5"), 3723.5);
+	});
+
+	it("rejects other text", () => {
+		for (const text of ["", "abc", "1:", ":30", "1:234", "-3"]) {
+			assert.equal(parseTime(text), null, text);
+		}
+	});
+});
+
+describe("parseMediaFragment", () => {
+	it("returns null without a fragment", () => {
+		assert.equal(parseMediaFragment("clip.mp4"), null);
+	});
+
+	it("splits start and end off the path", () => {
+		assert.deepEqual(parseMediaFragment("clip.mp4#t=12,30"), { path: "clip.mp4", start: 12, end: 30 });
+		assert.deepEqual(parseMediaFragment("clip.mp4#t=1:30"), { path: "clip.mp4", start: 90 });
+		assert.deepEqual(parseMediaFragment("clip.mp4#t=,45"), { path: "clip.mp4", end: 45 });
+		assert.deepEqual(parseMediaFragment("clip.mp4#t=npt:5,6"), { path: "clip.mp4", start: 5, end: 6 });
+	});
+
+	it("drops a zero start", () => {
+		assert.deepEqual(parseMediaFragment("clip.mp4#t=0,10"), { path: "clip.mp4", end: 10 });
+	});
+
+	it("reports times it cannot read", () => {
+		const result = parseMediaFragment("clip.mp4#t=1:2:3:,4");
+		assert.equal(result?.path, "clip.mp4");
+		assert.match(result?.error ?? "", /not a valid media fragment/);
+	});
+});
+
+describe("parseSlideAttributes", () => {
+	it("leaves lines without a block untouched", () => {
+		assert.deepEqual(parseSlideAttributes("![[a.png|Cap]]"), { line: "![[a.png|Cap]]", attributes: null, errors: [] });
+	});
+
+	it("splits the block off the entry", () => {
+		const result = parseSlideAttributes("![[clip.mp4|Demo]] {start=12 end=1:00 fit=cover duration=5 muted autoplay=false}");
+		assert.equal(result.line, "![[clip.mp4|Demo]]");
+		assert.deepEqual(result.attributes, { start: 12, end: 60, fit: "cover", duration: 5, muted: true, autoplay: false });
+		assert.deepEqual(result.errors, []);
+	});
+
+	it("accepts quoted values", () => {
+		assert.deepEqual(parseSlideAttributes(`a.mp4 {start="12" fit='contain'}`).attributes, { start: 12, fit: "contain" });
+	});
+
+	it("reports invalid attributes and keeps the valid ones", () => {
+		const result = parseSlideAttributes("a.mp4 {start=soon fit=stretch loop=maybe color=red duration=0 advance}");
+		assert.deepEqual(result.attributes, { advance: true });
+		assert.equal(result.errors.length, 5);
+		assert.ok(result.errors.some(error => error.includes(`Unknown slide attribute "color"`)));
+	});
+
+	it("drops an end that is not after the start", () => {
+		const result = parseSlideAttributes("a.mp4 {start=30 end=10}");
+		assert.deepEqual(result.attributes, { start: 30 });
+		assert.equal(result.errors.length, 1);
+	});
+});
+
+describe("formatSlideAttributes", () => {
+	it("writes a block that parses back unchanged", () => {
+		const attributes = { start: 12, end: 40, fit: "cover" as const, duration: 3, autoplay: true, muted: false, loop: true, advance: true };
+		const block = formatSlideAttributes(attributes);
+		assert.equal(block, "{start=12 end=40 fit=cover duration=3 autoplay muted=false loop advance}");
+		assert.deepEqual(parseSlideAttributes(`a.mp4 ${block}`).attributes, attributes);
+	});
+
+	it("writes nothing for empty attributes", () => {
+		assert.equal(formatSlideAttributes({}), "");
+	});
+});
+
+describe("parseSliderEntry", () => {
+	it("reads each entry syntax", () => {
+		assert.deepEqual(parseSliderEntry("![[a.png|Cap]]").entry, { path: "a.png", caption: "Cap", compareGroup: null, attributes: null });
+		assert.deepEqual(parseSliderEntry("![[a.png|Cap||1-2]]").entry, { path: "a.png", caption: "Cap", compareGroup: "1-2", attributes: null });
+		assert.deepEqual(parseSliderEntry("![Cap](a b.png)").entry, { path: "a b.png", caption: "Cap", compareGroup: null, attributes: null });
+		assert.deepEqual(parseSliderEntry("![alt](a.png | Cap)").entry, { path: "a.png", caption: "Cap", compareGroup: null, attributes: null });
+		assert.deepEqual(parseSliderEntry("  photos/a.png  ").entry, { path: "photos/a.png", caption: null, compareGroup: null, attributes: null });
+		assert.equal(parseSliderEntry("   ").entry, null);
+	});
+
+	it("turns a media fragment into start and end", () => {
+		const { entry, errors } = parseSliderEntry("![[clip.mp4#t=12,30|Demo]]");
+		assert.deepEqual(entry, { path: "clip.mp4", caption: "Demo", compareGroup: null, attributes: { start: 12, end: 30 } });
+		assert.deepEqual(errors, []);
+	});
+
+	it("lets the attribute block override the fragment", () => {
+		const { entry } = parseSliderEntry("clip.mp4#t=12,30 {start=20 muted}");
+		assert.deepEqual(entry?.attributes, { start: 20, end: 30, muted: true });
+	});
+
+	it("drops an end from the fragment that is not after the block's start", () => {
+		const { entry, errors } = parseSliderEntry("clip.mp4#t=,10 {start=20}");
+		assert.deepEqual(entry?.attributes, { start: 20 });
+		assert.equal(errors.length, 1);
+	});
+
+	it("keeps the path and reports an unreadable fragment", () => {
+		const { entry, errors } = parseSliderEntry("clip.mp4#t=x");
+		assert.equal(entry?.path, "clip.mp4#t=x");
+		assert.deepEqual(errors, []);
+		const invalid = parseSliderEntry("clip.mp4#t=1:2:3:");
+		assert.equal(invalid.entry?.path, "clip.mp4");
+		assert.equal(invalid.errors.length, 1);
+	});
+});
+
+describe("formatSliderEntry", () => {
+	it("writes lines that parse back unchanged", () => {
+		const entries = [
+			{ path: "a.png", caption: null, compareGroup: null, attributes: null },
+			{ path: "a.png", caption: "Before", compareGroup: "1-1", attributes: null },
+			{ path: "clip.mp4", caption: "Demo", compareGroup: null, attributes: { start: 12, muted: true } }
+		];
+		for (const entry of entries) {
+			assert.deepEqual(parseSliderEntry(formatSliderEntry(entry)).entry, entry);
+		}
+		assert.equal(formatSliderEntry(entries[2]), "![[clip.mp4|Demo]] {start=12 muted}");
+	});
+});
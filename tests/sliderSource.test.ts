@@ -0,0 +1,60 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createPathFilter, escapeGlob } from "../src/pathFilter";
+import { findSliderHeader, formatSliderBlock, setSliderHeaderValues } from "../src/sliderSource";
+
+describe("escapeGlob", () => {
+	it("gives a pattern that matches only the literal path", () => {
+		const names = ["shot*1.png", "what?.png", "{draft},v2.png", "back\\slash.png", "[1] (copy).png", "a.b+c^$.png"];
+		for (const name of names) {
+			const filter = createPathFilter(null, [`./trip/${escapeGlob(name)}`]);
+			assert.equal(filter(`trip/${name}`, `Media/trip/${name}`), false, name);
+		}
+		const starFilter = createPathFilter(null, [`./${escapeGlob("shot*1.png")}`]);
+		assert.equal(starFilter("shot-21.png", "shot-21.png"), true);
+		const questionFilter = createPathFilter(null, [`./${escapeGlob("what?.png")}`]);
+		assert.equal(questionFilter("whatX.png", "whatX.png"), true);
+		const braceFilter = createPathFilter(null, [`./${escapeGlob("{a,b}.png")}`]);
+		assert.equal(braceFilter("a.png", "a.png"), true);
+	});
+});
+
+describe("findSliderHeader", () => {
+	it("finds a header at the top of the body, after blank lines", () => {
+		assert.deepEqual(findSliderHeader(["---", "a: 1", "---", "x.png"]), { start: 0, end: 2 });
+		assert.deepEqual(findSliderHeader(["", "---", "---"]), { start: 1, end: 2 });
+	});
+
+	it("returns null without a complete header at the top", () => {
+		assert.equal(findSliderHeader(["x.png", "---", "a: 1", "---"]), null);
+		assert.equal(findSliderHeader(["---", "a: 1"]), null);
+		assert.equal(findSliderHeader([]), null);
+	});
+});
+
+describe("setSliderHeaderValues", () => {
+	it("creates the header when there is none", () => {
+		assert.deepEqual(setSliderHeaderValues(["x.png"], { exclude: ["./a\\*.png"] }), ["---", "exclude:", "  - \"./a\\\\*.png\"", "---", "x.png"]);
+	});
+
+	it("replaces a key together with its nested lines and keeps the rest", () => {
+		const body = ["---", "# comment", "exclude:", "  - old.png", "- loose.png", "carousel: true", "---", "x.png"];
+		assert.deepEqual(setSliderHeaderValues(body, { exclude: ["a.png", "b.png"] }), [
+			"---", "# comment", "carousel: true", "exclude:", "  - a.png", "  - b.png", "---", "x.png"
+		]);
+	});
+
+	it("writes values that need quoting as JSON strings", () => {
+		assert.deepEqual(setSliderHeaderValues(["---", "---"], { caption: "yes", sort: "name", speed: 3 }), [
+			"---", "caption: \"yes\"", "sort: name", "speed: 3", "---"
+		]);
+	});
+});
+
+describe("formatSliderBlock", () => {
+	it("omits an empty header and null values", () => {
+		assert.equal(formatSliderBlock({ carousel: null }, ["x.png"]), "```media-slider\nx.png\n```\n");
+		assert.equal(formatSliderBlock({ carousel: true, thumbnails: { position: "top" } }, ["x.png"]),
+			"```media-slider\n---\ncarousel: true\nthumbnails:\n  position: top\n---\nx.png\n```\n");
+	});
+});